@@ -0,0 +1,66 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import Logger from '@/services/logger';
+
+let transporter: Transporter | null = null;
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export const initializeEmail = (): void => {
+  const { SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS, SMTP_SECURE } = process.env;
+
+  if (!SMTP_HOST) {
+    console.warn('⚠️ SMTP_HOST not set, email notifications are disabled');
+    return;
+  }
+
+  const port = parseInt(SMTP_PORT || '587', 10);
+
+  transporter = nodemailer.createTransport({
+    host: SMTP_HOST,
+    port,
+    secure: SMTP_SECURE ? SMTP_SECURE === 'true' : port === 465,
+    // Local SMTP sinks (e.g. MailHog) accept unauthenticated mail
+    auth: SMTP_USER ? { user: SMTP_USER, pass: SMTP_PASS } : undefined,
+  });
+
+  console.log(`✅ Email transport initialized (${SMTP_HOST}:${port})`);
+};
+
+export const isEmailConfigured = (): boolean => transporter !== null;
+
+export const sendEmail = async (message: EmailMessage, userId?: string, type?: string): Promise<string> => {
+  if (!transporter) {
+    throw new Error('Email transport not initialized. Call initializeEmail() first.');
+  }
+
+  const from = process.env.EMAIL_FROM || `${process.env.APP_NAME || 'Fitness Tracker'} <${process.env.SMTP_USER}>`;
+
+  try {
+    const info = await transporter.sendMail({ from, ...message });
+
+    await Logger.logNotification('email_sent', userId || '', {
+      type,
+      subject: message.subject,
+      messageId: info.messageId,
+      platform: 'smtp',
+    }, 'success');
+
+    console.log(`✉️ Email sent (${type || 'general'}):`, info.messageId);
+    return info.messageId;
+  } catch (error) {
+    await Logger.logNotification('email_failed', userId || '', {
+      type,
+      subject: message.subject,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      platform: 'smtp',
+    }, 'failure');
+
+    console.error('❌ Failed to send email:', error);
+    throw new Error('Failed to send email');
+  }
+};
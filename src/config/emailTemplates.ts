@@ -0,0 +1,128 @@
+export type EmailTemplateType = 'trial_expiry' | 'trial_expired' | 'trial_winback' | 'payment_failed' | 'subscription_confirmed' | 'renewal_upcoming' | 'payment_refunded' | 'account_deleted';
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+type EmailVariables = Record<string, string | number | undefined>;
+
+const appName = (): string => process.env.APP_NAME || 'Fitness Tracker';
+const appUrl = (): string => process.env.FRONTEND_URL || process.env.APP_URL || '';
+
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Wrap plain paragraphs in a minimal HTML layout shared by all emails
+const layout = (greeting: string, paragraphs: string[], action?: { label: string; url: string }): Omit<RenderedEmail, 'subject'> => {
+  const text = [greeting, ...paragraphs, action ? `${action.label}: ${action.url}` : '', `— The ${appName()} team`]
+    .filter(Boolean)
+    .join('\n\n');
+
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 560px; margin: 0 auto; color: #222;">
+      <p>${escapeHtml(greeting)}</p>
+      ${paragraphs.map(paragraph => `<p>${escapeHtml(paragraph)}</p>`).join('\n      ')}
+      ${action ? `<p><a href="${escapeHtml(action.url)}" style="background: #4f46e5; color: #fff; padding: 10px 18px; border-radius: 6px; text-decoration: none;">${escapeHtml(action.label)}</a></p>` : ''}
+      <p style="color: #666;">— The ${escapeHtml(appName())} team</p>
+    </div>`;
+
+  return { text, html };
+};
+
+const greet = (variables: EmailVariables): string =>
+  variables.name ? `Hi ${variables.name},` : 'Hi there,';
+
+const EMAIL_TEMPLATES: Record<EmailTemplateType, (variables: EmailVariables) => RenderedEmail> = {
+  trial_expiry: variables => {
+    const daysLeft = Number(variables.daysLeft);
+    return {
+      subject: daysLeft === 1 ? 'Your free trial ends tomorrow' : `Your free trial ends in ${daysLeft} days`,
+      ...layout(greet(variables), [
+        daysLeft === 1
+          ? `Your ${appName()} trial ends tomorrow.`
+          : `Your ${appName()} trial ends in ${daysLeft} days.`,
+        'Upgrade to premium to keep tracking your progress without interruption.',
+      ], { label: 'Upgrade now', url: `${appUrl()}/subscription` }),
+    };
+  },
+
+  trial_expired: variables => ({
+    subject: `Your ${appName()} trial has ended`,
+    ...layout(greet(variables), [
+      'Your free trial ended today.',
+      'Upgrade to premium to keep tracking your progress and unlock every feature.',
+    ], { label: 'Upgrade now', url: `${appUrl()}/subscription` }),
+  }),
+
+  trial_winback: variables => ({
+    subject: 'Your progress is waiting for you',
+    ...layout(greet(variables), [
+      'It has been a few days since your trial ended.',
+      'Upgrade to premium and pick up right where you left off.',
+    ], { label: 'Come back', url: `${appUrl()}/subscription` }),
+  }),
+
+  payment_failed: variables => {
+    if (variables.stage === 'final') {
+      return {
+        subject: 'Your premium access has ended',
+        ...layout(greet(variables), [
+          `We tried several times but could not collect your payment of ${variables.amount}, so your premium access has ended.`,
+          'Update your payment details to resubscribe and pick up right where you left off.',
+        ], { label: 'Update payment method', url: `${appUrl()}/subscription` }),
+      };
+    }
+
+    return {
+      subject: variables.stage === 'reminder' ? 'Your payment is still outstanding' : 'We could not process your payment',
+      ...layout(greet(variables), [
+        variables.stage === 'reminder'
+          ? `We still could not process your payment of ${variables.amount}.`
+          : `Your payment of ${variables.amount} could not be processed.`,
+        variables.nextPaymentAttempt
+          ? `We will try again on ${variables.nextPaymentAttempt}. Please check that your payment details are up to date.`
+          : 'Please update your payment details to keep your premium access.',
+        variables.graceEndDate ? `Your premium access continues until ${variables.graceEndDate}.` : '',
+      ].filter(Boolean), { label: 'Update payment method', url: `${appUrl()}/subscription` }),
+    };
+  },
+
+  subscription_confirmed: variables => ({
+    subject: `Welcome to ${appName()} Premium`,
+    ...layout(greet(variables), [
+      'Your premium subscription is now active.',
+      'You have unlimited access to all features. Keep crushing your goals!',
+    ], { label: 'Open the app', url: appUrl() }),
+  }),
+
+  renewal_upcoming: variables => ({
+    subject: `Your ${appName()} Premium subscription renews soon`,
+    ...layout(greet(variables), [
+      `Your premium subscription renews on ${variables.renewalDate} and you will be charged ${variables.amount}.`,
+      'No action is needed to keep your access. You can change or cancel your plan at any time.',
+    ], { label: 'Manage subscription', url: `${appUrl()}/subscription` }),
+  }),
+
+  payment_refunded: variables => ({
+    subject: 'Your refund is on its way',
+    ...layout(greet(variables), [
+      `We refunded ${variables.amount} to your original payment method.`,
+      'Depending on your bank it can take 5-10 business days to appear on your statement.',
+    ]),
+  }),
+
+  account_deleted: variables => ({
+    subject: `Your ${appName()} account has been deleted`,
+    ...layout(greet(variables), [
+      'Your account has been deactivated as requested and you will no longer receive notifications from us.',
+      'If you did not request this, please contact support right away.',
+    ]),
+  }),
+};
+
+export const renderEmailTemplate = (type: EmailTemplateType, variables: EmailVariables = {}): RenderedEmail =>
+  EMAIL_TEMPLATES[type](variables);
+
+export const hasEmailTemplate = (type: string): type is EmailTemplateType => type in EMAIL_TEMPLATES;
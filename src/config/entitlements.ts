@@ -0,0 +1,15 @@
+// Named features that plans, promo codes and the free trial can grant
+export const ENTITLEMENTS = [
+  'photo_uploads', // Attach photos to progress entries
+  'progress_comparison', // Compare two progress entries
+  'unlimited_history', // Browse progress and workouts older than FREE_HISTORY_DAYS
+  'data_export', // Download all of one's own data
+] as const;
+
+export type Entitlement = typeof ENTITLEMENTS[number];
+
+// Granted during the app's own free trial, before any Stripe subscription
+export const TRIAL_ENTITLEMENTS: Entitlement[] = ['photo_uploads', 'progress_comparison'];
+
+// History visible without `unlimited_history`
+export const FREE_HISTORY_DAYS = 30;
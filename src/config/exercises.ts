@@ -0,0 +1,55 @@
+import { EquipmentType, MovementPattern, MuscleGroup } from '@/models/Exercise';
+
+export interface ExerciseDefinition {
+  name: string;
+  primaryMuscles: MuscleGroup[];
+  secondaryMuscles: MuscleGroup[];
+  equipment: EquipmentType;
+  movementPattern: MovementPattern;
+}
+
+// Built-in exercise catalogue, upserted by name on startup
+export const DEFAULT_EXERCISES: ExerciseDefinition[] = [
+  // Chest
+  { name: 'Barbell Bench Press', primaryMuscles: ['Chest'], secondaryMuscles: ['Triceps', 'Shoulders'], equipment: 'barbell', movementPattern: 'push' },
+  { name: 'Incline Dumbbell Press', primaryMuscles: ['Chest'], secondaryMuscles: ['Shoulders', 'Triceps'], equipment: 'dumbbell', movementPattern: 'push' },
+  { name: 'Cable Fly', primaryMuscles: ['Chest'], secondaryMuscles: [], equipment: 'cable', movementPattern: 'isolation' },
+  { name: 'Push-Up', primaryMuscles: ['Chest'], secondaryMuscles: ['Triceps', 'Shoulders', 'Abs'], equipment: 'bodyweight', movementPattern: 'push' },
+  { name: 'Dip', primaryMuscles: ['Chest', 'Triceps'], secondaryMuscles: ['Shoulders'], equipment: 'bodyweight', movementPattern: 'push' },
+
+  // Back
+  { name: 'Pull-Up', primaryMuscles: ['Lats'], secondaryMuscles: ['Biceps', 'Upper Back'], equipment: 'bodyweight', movementPattern: 'pull' },
+  { name: 'Lat Pulldown', primaryMuscles: ['Lats'], secondaryMuscles: ['Biceps'], equipment: 'cable', movementPattern: 'pull' },
+  { name: 'Barbell Row', primaryMuscles: ['Upper Back', 'Lats'], secondaryMuscles: ['Biceps'], equipment: 'barbell', movementPattern: 'pull' },
+  { name: 'Seated Cable Row', primaryMuscles: ['Upper Back'], secondaryMuscles: ['Lats', 'Biceps'], equipment: 'cable', movementPattern: 'pull' },
+  { name: 'Face Pull', primaryMuscles: ['Upper Back', 'Shoulders'], secondaryMuscles: [], equipment: 'cable', movementPattern: 'pull' },
+
+  // Shoulders
+  { name: 'Overhead Press', primaryMuscles: ['Shoulders'], secondaryMuscles: ['Triceps', 'Upper Back'], equipment: 'barbell', movementPattern: 'push' },
+  { name: 'Dumbbell Shoulder Press', primaryMuscles: ['Shoulders'], secondaryMuscles: ['Triceps'], equipment: 'dumbbell', movementPattern: 'push' },
+  { name: 'Lateral Raise', primaryMuscles: ['Shoulders'], secondaryMuscles: [], equipment: 'dumbbell', movementPattern: 'isolation' },
+
+  // Arms
+  { name: 'Barbell Curl', primaryMuscles: ['Biceps'], secondaryMuscles: [], equipment: 'barbell', movementPattern: 'isolation' },
+  { name: 'Hammer Curl', primaryMuscles: ['Biceps'], secondaryMuscles: [], equipment: 'dumbbell', movementPattern: 'isolation' },
+  { name: 'Triceps Pushdown', primaryMuscles: ['Triceps'], secondaryMuscles: [], equipment: 'cable', movementPattern: 'isolation' },
+  { name: 'Skull Crusher', primaryMuscles: ['Triceps'], secondaryMuscles: [], equipment: 'barbell', movementPattern: 'isolation' },
+
+  // Legs
+  { name: 'Back Squat', primaryMuscles: ['Quads', 'Glutes'], secondaryMuscles: ['Hamstrings', 'Abs'], equipment: 'barbell', movementPattern: 'squat' },
+  { name: 'Front Squat', primaryMuscles: ['Quads'], secondaryMuscles: ['Glutes', 'Abs'], equipment: 'barbell', movementPattern: 'squat' },
+  { name: 'Leg Press', primaryMuscles: ['Quads', 'Glutes'], secondaryMuscles: ['Hamstrings'], equipment: 'machine', movementPattern: 'squat' },
+  { name: 'Deadlift', primaryMuscles: ['Hamstrings', 'Glutes'], secondaryMuscles: ['Upper Back', 'Quads'], equipment: 'barbell', movementPattern: 'hinge' },
+  { name: 'Romanian Deadlift', primaryMuscles: ['Hamstrings'], secondaryMuscles: ['Glutes', 'Upper Back'], equipment: 'barbell', movementPattern: 'hinge' },
+  { name: 'Hip Thrust', primaryMuscles: ['Glutes'], secondaryMuscles: ['Hamstrings'], equipment: 'barbell', movementPattern: 'hinge' },
+  { name: 'Walking Lunge', primaryMuscles: ['Quads', 'Glutes'], secondaryMuscles: ['Hamstrings'], equipment: 'dumbbell', movementPattern: 'lunge' },
+  { name: 'Leg Curl', primaryMuscles: ['Hamstrings'], secondaryMuscles: [], equipment: 'machine', movementPattern: 'isolation' },
+  { name: 'Leg Extension', primaryMuscles: ['Quads'], secondaryMuscles: [], equipment: 'machine', movementPattern: 'isolation' },
+  { name: 'Standing Calf Raise', primaryMuscles: ['Calves'], secondaryMuscles: [], equipment: 'machine', movementPattern: 'isolation' },
+
+  // Core
+  { name: 'Plank', primaryMuscles: ['Abs'], secondaryMuscles: [], equipment: 'bodyweight', movementPattern: 'core' },
+  { name: 'Hanging Leg Raise', primaryMuscles: ['Abs'], secondaryMuscles: [], equipment: 'bodyweight', movementPattern: 'core' },
+  { name: 'Cable Crunch', primaryMuscles: ['Abs'], secondaryMuscles: [], equipment: 'cable', movementPattern: 'core' },
+  { name: "Farmer's Carry", primaryMuscles: ['Upper Back', 'Abs'], secondaryMuscles: ['Glutes'], equipment: 'dumbbell', movementPattern: 'carry' },
+];
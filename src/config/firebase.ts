@@ -1,5 +1,8 @@
 import admin from 'firebase-admin';
 import Logger from '@/services/logger';
+import { notificationHistory } from '@/services/notificationHistory';
+import { deviceService } from '@/services/deviceService';
+import { notificationPolicy } from '@/services/notificationPolicy';
 
 let firebaseApp: admin.app.App;
 
@@ -84,7 +87,13 @@ export const sendPushNotification = async (
   body: string,
   data?: Record<string, string>,
   userId?: string
-): Promise<string> => {
+): Promise<string | null> => {
+  const { allowedTokens } = await notificationPolicy.filterTokens([token], data?.type);
+  if (allowedTokens.length === 0) {
+    console.log('🔕 Push notification suppressed by notification preferences');
+    return null;
+  }
+
   try {
     const app = getFirebaseApp();
     const message = {
@@ -98,6 +107,8 @@ export const sendPushNotification = async (
 
     const response = await app.messaging().send(message);
     
+    await notificationHistory.recordDeliveries([token], [{ success: true, messageId: response }], { title, body, data });
+    
     await Logger.logNotification('push_notification_sent', userId || '', {
       title,
       body,
@@ -109,6 +120,10 @@ export const sendPushNotification = async (
     console.log('✅ Push notification sent successfully:', response);
     return response;
   } catch (error) {
+    const results = [{ success: false, errorCode: (error as any)?.code }];
+    await notificationHistory.recordDeliveries([token], results, { title, body, data });
+    await deviceService.pruneInvalidTokens([token], results);
+    
     await Logger.logNotification('push_notification_failed', userId || '', {
       title,
       body,
@@ -121,6 +136,91 @@ export const sendPushNotification = async (
   }
 };
 
+// FCM accepts at most 500 tokens per multicast request
+const MULTICAST_BATCH_SIZE = 500;
+const DEFAULT_MULTICAST_CONCURRENCY = 4;
+const MAX_SEND_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 500;
+
+// Read when sending, as the entry points load .env after this module is imported
+const getMulticastConcurrency = (): number => {
+  const parsed = parseInt(process.env.FCM_SEND_CONCURRENCY || String(DEFAULT_MULTICAST_CONCURRENCY), 10);
+  return Math.max(1, Number.isFinite(parsed) ? parsed : DEFAULT_MULTICAST_CONCURRENCY);
+};
+
+// Errors worth retrying; anything else is permanent for the token or the request
+const TRANSIENT_ERRORS = [
+  'messaging/internal-error',
+  'messaging/server-unavailable',
+  'messaging/unavailable',
+  'messaging/quota-exceeded',
+  'messaging/message-rate-exceeded',
+  'app/network-error',
+  'app/network-timeout',
+];
+
+const isTransientError = (code?: string): boolean => !!code && TRANSIENT_ERRORS.includes(code);
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+interface BatchOutcome {
+  responses: admin.messaging.SendResponse[];
+  retries: number;
+  requestFailed: boolean; // Whole request rejected even after retries
+}
+
+// Send one batch of at most MULTICAST_BATCH_SIZE tokens, retrying transient failures with exponential backoff.
+// Only tokens that failed transiently are resent, so delivered messages are never duplicated.
+const sendBatch = async (
+  tokens: string[],
+  notification: admin.messaging.Notification,
+  data: Record<string, string>
+): Promise<BatchOutcome> => {
+  const app = getFirebaseApp();
+  const responses: admin.messaging.SendResponse[] = new Array(tokens.length);
+  let pending = tokens.map((_, index) => index);
+  let retries = 0;
+  let requestFailed = false;
+
+  for (let attempt = 1; attempt <= MAX_SEND_ATTEMPTS && pending.length > 0; attempt++) {
+    if (attempt > 1) {
+      retries += pending.length;
+      await sleep(RETRY_BASE_DELAY_MS * 2 ** (attempt - 2));
+    }
+
+    const isLastAttempt = attempt === MAX_SEND_ATTEMPTS;
+
+    try {
+      const response = await app.messaging().sendMulticast({
+        notification,
+        data,
+        tokens: pending.map(index => tokens[index]),
+      });
+
+      const retryable: number[] = [];
+      response.responses.forEach((result, position) => {
+        const index = pending[position];
+        responses[index] = result;
+        if (!result.success && isTransientError(result.error?.code) && !isLastAttempt) {
+          retryable.push(index);
+        }
+      });
+      pending = retryable;
+      requestFailed = false;
+    } catch (error) {
+      const code = (error as any)?.code;
+      pending.forEach(index => {
+        responses[index] = { success: false, error: error as admin.FirebaseError };
+      });
+      requestFailed = true;
+
+      if (!isTransientError(code)) break;
+    }
+  }
+
+  return { responses, retries, requestFailed };
+};
+
 export const sendMulticastNotification = async (
   tokens: string[],
   title: string,
@@ -128,45 +228,77 @@ export const sendMulticastNotification = async (
   data?: Record<string, string>,
   userIds?: string[]
 ): Promise<admin.messaging.BatchResponse> => {
-  try {
-    const app = getFirebaseApp();
-    const message = {
-      notification: {
-        title,
-        body,
-      },
-      data: data || {},
-      tokens,
-    };
+  // User preferences (categories, quiet hours, daily cap) are enforced here for every sender
+  const { allowedTokens, suppressedCount } = await notificationPolicy.filterTokens(tokens, data?.type);
+  if (suppressedCount > 0) {
+    console.log(`🔕 Suppressed ${suppressedCount} of ${tokens.length} devices by notification preferences`);
+  }
+  if (allowedTokens.length === 0) {
+    return { responses: [], successCount: 0, failureCount: 0 };
+  }
+  tokens = allowedTokens;
 
-    const response = await app.messaging().sendMulticast(message);
-    
-    await Logger.logNotification('multicast_notification_sent', userIds?.join(',') || '', {
-      title,
-      body,
-      data,
-      tokensCount: tokens.length,
-      successCount: response.successCount,
-      failureCount: response.failureCount,
-      responses: response.responses.map(r => ({
-        success: r.success,
-        messageId: r.messageId,
-        error: r.error?.code
-      })),
-    }, response.failureCount > 0 ? 'failure' : 'success');
-    
-    console.log(`✅ Multicast notification sent to ${tokens.length} devices:`, response);
-    return response;
-  } catch (error) {
-    await Logger.logNotification('multicast_notification_failed', userIds?.join(',') || '', {
-      title,
-      body,
-      data,
-      tokensCount: tokens.length,
-      error: error instanceof Error ? error.message : 'Unknown error',
-    }, 'failure');
-    
-    console.error('❌ Failed to send multicast notification:', error);
+  const batches: string[][] = [];
+  for (let i = 0; i < tokens.length; i += MULTICAST_BATCH_SIZE) {
+    batches.push(tokens.slice(i, i + MULTICAST_BATCH_SIZE));
+  }
+
+  // Bounded concurrency: a fixed number of workers pull batches off a shared index
+  const outcomes: BatchOutcome[] = new Array(batches.length);
+  let nextBatch = 0;
+  const worker = async (): Promise<void> => {
+    while (nextBatch < batches.length) {
+      const index = nextBatch++;
+      outcomes[index] = await sendBatch(batches[index], { title, body }, data || {});
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(getMulticastConcurrency(), batches.length) }, worker));
+
+  const responses = outcomes.flatMap(outcome => outcome.responses);
+  const successCount = responses.filter(r => r.success).length;
+  const failureCount = responses.length - successCount;
+  const retriedCount = outcomes.reduce((sum, outcome) => sum + outcome.retries, 0);
+  const failedBatches = outcomes.filter(outcome => outcome.requestFailed).length;
+
+  const errorCounts: Record<string, number> = {};
+  responses.forEach(r => {
+    if (!r.success) {
+      const code = r.error?.code || 'unknown';
+      errorCounts[code] = (errorCounts[code] || 0) + 1;
+    }
+  });
+
+  const results = responses.map(r => ({ success: r.success, messageId: r.messageId, errorCode: r.error?.code }));
+  await notificationHistory.recordDeliveries(tokens, results, { title, body, data });
+  await deviceService.pruneInvalidTokens(tokens, results);
+
+  const summary = {
+    title,
+    body,
+    data,
+    recipientCount: userIds?.length,
+    tokensCount: tokens.length,
+    suppressedCount,
+    batchCount: batches.length,
+    failedBatches,
+    successCount,
+    failureCount,
+    retriedCount,
+    errorCounts,
+  };
+  // Keep the log entry small for large sends
+  const logUserId = userIds && userIds.length <= 20 ? userIds.join(',') : '';
+
+  // Every batch was rejected outright: nothing was delivered
+  if (batches.length > 0 && failedBatches === batches.length) {
+    await Logger.logNotification('multicast_notification_failed', logUserId, summary, 'failure');
+
+    console.error(`❌ Failed to send multicast notification to ${tokens.length} devices:`, errorCounts);
     throw new Error('Failed to send notifications');
   }
-};
\ No newline at end of file
+
+  await Logger.logNotification('multicast_notification_sent', logUserId, summary, failureCount > 0 ? 'failure' : 'success');
+
+  console.log(`✅ Multicast notification sent to ${tokens.length} devices in ${batches.length} batches (${successCount} succeeded, ${failureCount} failed)`);
+  return { responses, successCount, failureCount };
+};
@@ -0,0 +1,185 @@
+export const DEFAULT_LOCALE = 'en';
+export const LOCALE_PATTERN = /^[a-z]{2,3}(-[A-Z]{2})?$/; // e.g. 'en', 'de', 'pt-BR'
+
+export interface TemplateCopy {
+  title: string;
+  body: string;
+}
+
+export interface NotificationTemplateDefinition {
+  description: string;
+  variables: string[]; // Placeholders usable as {{name}} in title and body
+  copy: Record<string, TemplateCopy>; // Built-in copy by locale, must include DEFAULT_LOCALE
+}
+
+// Built-in push notification copy. Admin overrides are stored in the NotificationTemplate collection.
+export const NOTIFICATION_TEMPLATES: Record<string, NotificationTemplateDefinition> = {
+  'progress_reminder': {
+    description: 'Progress reminder at a custom reminder time',
+    variables: [],
+    copy: {
+      en: { title: '💪 Track Your Progress!', body: 'Time to track your fitness progress! 💪' },
+    },
+  },
+  'progress_reminder.12': {
+    description: 'Progress reminder at 12:00',
+    variables: [],
+    copy: {
+      en: { title: '🌟 Midday Progress Check!', body: 'Take a moment to capture your fitness journey today! 📸' },
+    },
+  },
+  'progress_reminder.18': {
+    description: 'Progress reminder at 18:00',
+    variables: [],
+    copy: {
+      en: { title: '💪 Evening Fitness Update!', body: 'How did your workout go? Log your progress now! 🏋️‍♂️' },
+    },
+  },
+  'progress_reminder.22': {
+    description: 'Progress reminder at 22:00',
+    variables: [],
+    copy: {
+      en: { title: '📸 Quick Progress Snap!', body: "Don't forget to track today's progress! Quick and easy! ✨" },
+    },
+  },
+  'progress_reminder.23': {
+    description: 'Progress reminder at 23:00',
+    variables: [],
+    copy: {
+      en: { title: '⏰ Last Chance Today!', body: 'Final reminder: Track your progress before midnight! 🌙' },
+    },
+  },
+  'welcome': {
+    description: 'Sent after sign up',
+    variables: [],
+    copy: {
+      en: { title: '🎉 Welcome to Gains!', body: 'Start your fitness journey today! Take your first progress photos.' },
+    },
+  },
+  'trial_expiry.tomorrow': {
+    description: 'Trial ends in one day',
+    variables: [],
+    copy: {
+      en: { title: '⏰ Trial expires tomorrow!', body: "Don't lose your progress! Upgrade to premium now." },
+    },
+  },
+  'trial_expiry': {
+    description: 'Trial ends in several days',
+    variables: ['daysLeft'],
+    copy: {
+      en: { title: '⏰ {{daysLeft}} days left in trial!', body: 'Continue your fitness journey with premium features. {{daysLeft}} days remaining.' },
+    },
+  },
+  'trial_expired': {
+    description: 'Trial ended today',
+    variables: [],
+    copy: {
+      en: { title: '⌛ Your trial has ended', body: 'Upgrade to premium to keep tracking your progress and unlock every feature.' },
+    },
+  },
+  'trial_winback': {
+    description: 'Win-back three days after the trial ended',
+    variables: [],
+    copy: {
+      en: { title: '💪 Ready to get back on track?', body: 'Your progress is waiting for you. Upgrade to premium and pick up where you left off.' },
+    },
+  },
+  'subscription_confirmed': {
+    description: 'First successful subscription payment',
+    variables: [],
+    copy: {
+      en: { title: '🎉 Welcome to Premium!', body: 'You now have unlimited access to all features. Keep crushing your goals!' },
+    },
+  },
+  'payment_failed': {
+    description: 'Subscription payment could not be collected',
+    variables: ['amount'],
+    copy: {
+      en: { title: '⚠️ Payment failed', body: "We couldn't process your payment of {{amount}}. Please update your payment method to keep premium access." },
+    },
+  },
+  'payment_failed.reminder': {
+    description: 'Payment still failing on a later retry',
+    variables: ['amount', 'graceEndDate'],
+    copy: {
+      en: { title: '⚠️ Payment still outstanding', body: 'Your payment of {{amount}} is still failing. Update your payment method before {{graceEndDate}} to keep premium access.' },
+    },
+  },
+  'payment_failed.final': {
+    description: 'Last payment retry failed and premium access ended',
+    variables: ['amount'],
+    copy: {
+      en: { title: '🔒 Premium access paused', body: "We couldn't collect your payment of {{amount}}, so premium access has ended. Update your payment method to resubscribe." },
+    },
+  },
+  'renewal_upcoming': {
+    description: 'Subscription renews soon',
+    variables: ['amount', 'renewalDate'],
+    copy: {
+      en: { title: '🔁 Your subscription renews soon', body: 'Your premium subscription renews on {{renewalDate}} for {{amount}}.' },
+    },
+  },
+  'payment_refunded': {
+    description: 'A subscription payment was refunded',
+    variables: ['amount'],
+    copy: {
+      en: { title: '💸 Refund issued', body: 'We refunded {{amount}} to your original payment method.' },
+    },
+  },
+  'motivational.3': {
+    description: '3-day logging streak',
+    variables: [],
+    copy: {
+      en: { title: '🔥 3-Day Streak!', body: "You're on fire! Keep the momentum going!" },
+    },
+  },
+  'motivational.7': {
+    description: '7-day logging streak',
+    variables: [],
+    copy: {
+      en: { title: '🌟 One Week Strong!', body: "Amazing consistency! You're building great habits!" },
+    },
+  },
+  'motivational.14': {
+    description: '14-day logging streak',
+    variables: [],
+    copy: {
+      en: { title: '💪 Two Weeks of Power!', body: 'Your dedication is inspiring! Keep pushing forward!' },
+    },
+  },
+  'motivational.30': {
+    description: '30-day logging streak',
+    variables: [],
+    copy: {
+      en: { title: '🏆 30-Day Champion!', body: "Incredible milestone! You're a true fitness warrior!" },
+    },
+  },
+  'motivational.60': {
+    description: '60-day logging streak',
+    variables: [],
+    copy: {
+      en: { title: '🚀 60-Day Legend!', body: "Outstanding commitment! You're unstoppable!" },
+    },
+  },
+  'motivational.100': {
+    description: '100-day logging streak',
+    variables: [],
+    copy: {
+      en: { title: '👑 100-Day Master!', body: "Legendary achievement! You've built an unbreakable habit!" },
+    },
+  },
+  'personal_record': {
+    description: 'One new personal record in a workout',
+    variables: ['record'],
+    copy: {
+      en: { title: '🏆 New Personal Record!', body: '{{record}}. Keep getting stronger!' },
+    },
+  },
+  'personal_record.multiple': {
+    description: 'Several new personal records in a workout',
+    variables: ['count', 'record', 'more'],
+    copy: {
+      en: { title: '🏆 {{count}} New Personal Records!', body: '{{record}} and {{more}} more. What a session!' },
+    },
+  },
+};
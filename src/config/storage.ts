@@ -101,6 +101,60 @@ export const uploadImage = async (
   }
 };
 
+export type ProgressPhotoType = 'front' | 'side' | 'back' | 'pose';
+
+// Store an unprocessed upload as-is so resizing can happen in a background job
+export const uploadOriginalImage = async (
+  imageBuffer: Buffer,
+  options: { userId: string; type: ProgressPhotoType; contentType?: string }
+): Promise<string> => {
+  try {
+    const { userId, type, contentType = 'application/octet-stream' } = options;
+    const timestamp = Date.now();
+    const randomString = crypto.randomBytes(8).toString('hex');
+    const key = `uploads/${userId}/${type}_${timestamp}_${randomString}`;
+
+    const bucketName = process.env.R2_BUCKET_NAME || 'fitness-tracker-images';
+
+    await s3Client.send(new PutObjectCommand({
+      Bucket: bucketName,
+      Key: key,
+      Body: imageBuffer,
+      ContentType: contentType,
+    }));
+
+    return key;
+  } catch (error) {
+    console.error('❌ Original image upload failed:', error);
+    throw new Error('Failed to upload image');
+  }
+};
+
+// Resize an upload stored by uploadOriginalImage and publish it; the original is left in place
+export const processUploadedImage = async (key: string, options: UploadOptions): Promise<string> => {
+  const bucketName = process.env.R2_BUCKET_NAME || 'fitness-tracker-images';
+
+  const response = await s3Client.send(new GetObjectCommand({
+    Bucket: bucketName,
+    Key: key,
+  }));
+  if (!response.Body) {
+    throw new Error(`Uploaded image ${key} is empty`);
+  }
+
+  const original = Buffer.from(await response.Body.transformToByteArray());
+  return uploadImage(original, options);
+};
+
+export const deleteImageByKey = async (key: string): Promise<void> => {
+  const bucketName = process.env.R2_BUCKET_NAME || 'fitness-tracker-images';
+
+  await s3Client.send(new DeleteObjectCommand({
+    Bucket: bucketName,
+    Key: key,
+  }));
+};
+
 export const deleteImage = async (imageUrl: string): Promise<boolean> => {
   try {
     // Extract the key from the URL
@@ -0,0 +1,13 @@
+import { formatAmount } from '@/config/stripe';
+
+describe('formatAmount', () => {
+  it('converts minor units of decimal currencies', () => {
+    expect(formatAmount(999, 'usd')).toBe('$9.99');
+    expect(formatAmount(1250, 'EUR')).toBe('€12.50');
+  });
+
+  it('leaves zero-decimal currencies in whole units', () => {
+    expect(formatAmount(1200, 'jpy')).toBe('¥1,200');
+    expect(formatAmount(5000, 'KRW')).toBe('₩5,000');
+  });
+});
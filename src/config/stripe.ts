@@ -70,21 +70,15 @@ export const createCustomer = async (options: CreateCustomerOptions): Promise<St
 
 export const createSubscription = async (
   customerId: string,
-  priceId?: string,
-  trialPeriodDays: number = 3,
+  priceId: string,
+  trialPeriodDays: number = 0,
   userId?: string
 ): Promise<Stripe.Subscription> => {
   try {
-    const finalPriceId = priceId === "price_monthly" ? process.env.STRIPE_PRICE_ID : process.env.STRIPE_YEARLY_PRICE_ID;
-
-    if (!finalPriceId) {
-      throw new Error('No price ID provided and STRIPE_PRICE_ID not set');
-    }
-
     const subscription = await stripe.subscriptions.create({
       customer: customerId,
-      items: [{ price: finalPriceId }],
-      trial_period_days: trialPeriodDays,
+      items: [{ price: priceId }],
+      ...(trialPeriodDays > 0 && { trial_period_days: trialPeriodDays }),
       payment_behavior: 'default_incomplete',
       payment_settings: {
         save_default_payment_method: 'on_subscription',
@@ -99,7 +93,7 @@ export const createSubscription = async (
     await Logger.logPayment('create_subscription', userId || '', {
       subscriptionId: subscription.id,
       customerId,
-      priceId: finalPriceId,
+      priceId,
       trialPeriodDays,
     }, 'success');
 
@@ -118,6 +112,65 @@ export const createSubscription = async (
   }
 };
 
+// Recurring price backing a plan; throws for unknown, inactive or one-off prices
+export const getRecurringPrice = async (priceId: string): Promise<Stripe.Price> => {
+  let price: Stripe.Price;
+  try {
+    price = await stripe.prices.retrieve(priceId);
+  } catch (error) {
+    console.error('❌ Failed to retrieve price:', error);
+    throw new Error('Price not found');
+  }
+
+  if (!price.active || price.type !== 'recurring' || !price.recurring) {
+    throw new Error('Price is not an active recurring price');
+  }
+  return price;
+};
+
+export interface CreateCheckoutSessionOptions {
+  customerId: string;
+  priceId: string;
+  userId: string;
+  successUrl: string;
+  cancelUrl: string;
+  trialPeriodDays?: number;
+  metadata?: Record<string, string>;
+}
+
+// Hosted Checkout for a new subscription; the result is applied by the checkout.session.completed webhook
+export const createCheckoutSession = async (options: CreateCheckoutSessionOptions): Promise<Stripe.Checkout.Session> => {
+  const { customerId, priceId, userId, successUrl, cancelUrl, trialPeriodDays, metadata } = options;
+
+  try {
+    const session = await stripe.checkout.sessions.create({
+      mode: 'subscription',
+      customer: customerId,
+      client_reference_id: userId,
+      line_items: [{ price: priceId, quantity: 1 }],
+      success_url: successUrl,
+      cancel_url: cancelUrl,
+      subscription_data: {
+        ...(trialPeriodDays && { trial_period_days: trialPeriodDays }),
+        metadata: { userId, ...metadata },
+      },
+      metadata: { userId, ...metadata },
+    });
+
+    console.log(`✅ Checkout session created: ${session.id}`);
+    return session;
+  } catch (error) {
+    await Logger.logPayment('create_checkout_session', userId, {
+      customerId,
+      priceId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 'failure');
+
+    console.error('❌ Failed to create checkout session:', error);
+    throw new Error('Failed to create checkout session');
+  }
+};
+
 export const createPaymentIntent = async (
   amount: number,
   currency: string = 'usd',
@@ -260,6 +313,109 @@ export const applyPromoCode = async (
   }
 };
 
+export interface PlanChangePreview {
+  prorationDate: number; // Pass back when applying so the charge matches the preview
+  prorationAmount: number; // Net of credit for unused time and charge for the new plan, in the smallest currency unit
+  amountDue: number; // Total of the invoice the change creates
+  currency: string;
+}
+
+// Preview an immediate price change using Stripe's upcoming invoice
+export const previewPlanChange = async (
+  subscription: Stripe.Subscription,
+  priceId: string,
+  prorationDate: number = Math.floor(Date.now() / 1000)
+): Promise<PlanChangePreview> => {
+  try {
+    const invoice = await stripe.invoices.retrieveUpcoming({
+      customer: subscription.customer as string,
+      subscription: subscription.id,
+      subscription_items: [{ id: subscription.items.data[0].id, price: priceId }],
+      subscription_proration_behavior: 'always_invoice',
+      subscription_proration_date: prorationDate,
+    });
+
+    // Only the proration lines created by this change, not other pending items
+    const prorationAmount = invoice.lines.data
+      .filter(line => line.proration && line.period.start === prorationDate)
+      .reduce((total, line) => total + line.amount, 0);
+
+    return {
+      prorationDate,
+      prorationAmount,
+      amountDue: invoice.amount_due,
+      currency: invoice.currency,
+    };
+  } catch (error) {
+    console.error('❌ Failed to preview plan change:', error);
+    throw new Error('Failed to preview plan change');
+  }
+};
+
+// Switch the subscription to another price now, invoicing the prorated difference immediately
+export const changeSubscriptionPrice = async (
+  subscription: Stripe.Subscription,
+  priceId: string,
+  prorationDate?: number
+): Promise<Stripe.Subscription> => {
+  try {
+    // A change scheduled for the period end would otherwise override this one
+    const scheduleId = typeof subscription.schedule === 'string' ? subscription.schedule : subscription.schedule?.id;
+    if (scheduleId) {
+      await stripe.subscriptionSchedules.release(scheduleId);
+    }
+
+    const updated = await stripe.subscriptions.update(subscription.id, {
+      items: [{ id: subscription.items.data[0].id, price: priceId }],
+      proration_behavior: 'always_invoice',
+      ...(prorationDate && { proration_date: prorationDate }),
+    });
+
+    console.log(`✅ Subscription ${subscription.id} switched to price ${priceId}`);
+    return updated;
+  } catch (error) {
+    console.error('❌ Failed to change subscription price:', error);
+    throw new Error('Failed to change plan');
+  }
+};
+
+// Switch the subscription to another price when the current period ends, without proration
+export const schedulePriceChange = async (
+  subscription: Stripe.Subscription,
+  priceId: string
+): Promise<Stripe.SubscriptionSchedule> => {
+  try {
+    const scheduleId = typeof subscription.schedule === 'string' ? subscription.schedule : subscription.schedule?.id;
+    const schedule = scheduleId
+      ? await stripe.subscriptionSchedules.retrieve(scheduleId)
+      : await stripe.subscriptionSchedules.create({ from_subscription: subscription.id });
+
+    const updated = await stripe.subscriptionSchedules.update(schedule.id, {
+      end_behavior: 'release',
+      phases: [
+        {
+          items: subscription.items.data.map(item => ({ price: item.price.id, quantity: item.quantity })),
+          start_date: subscription.current_period_start,
+          end_date: subscription.current_period_end,
+          proration_behavior: 'none',
+          ...(subscription.status === 'trialing' && subscription.trial_end && { trial_end: subscription.trial_end }),
+        },
+        {
+          items: [{ price: priceId, quantity: 1 }],
+          proration_behavior: 'none',
+          iterations: 1,
+        },
+      ],
+    });
+
+    console.log(`✅ Price change to ${priceId} scheduled for subscription ${subscription.id}`);
+    return updated;
+  } catch (error) {
+    console.error('❌ Failed to schedule plan change:', error);
+    throw new Error('Failed to schedule plan change');
+  }
+};
+
 export const createPortalSession = async (
   customerId: string,
   returnUrl: string
@@ -312,11 +468,18 @@ export const getPaymentMethods = async (customerId: string): Promise<Stripe.Paym
   }
 };
 
+// Currencies Stripe bills in whole units, see https://stripe.com/docs/currencies#zero-decimal
+const ZERO_DECIMAL_CURRENCIES = [
+  'bif', 'clp', 'djf', 'gnf', 'jpy', 'kmf', 'krw', 'mga', 'pyg', 'rwf', 'ugx', 'vnd', 'vuv', 'xaf', 'xof', 'xpf',
+];
+
+// Stripe amounts are in the smallest currency unit
 export const formatAmount = (amount: number, currency: string = 'usd'): string => {
+  const divisor = ZERO_DECIMAL_CURRENCIES.includes(currency.toLowerCase()) ? 1 : 100;
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
     currency: currency.toUpperCase(),
-  }).format(amount / 100);
+  }).format(amount / divisor);
 };
 
 export const getSubscriptionStatus = (subscription: Stripe.Subscription): {
@@ -1,8 +1,13 @@
 import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
 import { verifyFirebaseToken, getFirebaseUser } from '@/config/firebase';
 import { User } from '@/models/User';
 import { cache } from '@/config/redis';
 import Logger from '@/services/logger';
+import { deviceService } from '@/services/deviceService';
+import { jobQueue } from '@/services/jobQueue';
+import { entitlementService } from '@/services/entitlementService';
+import { Entitlement } from '@/config/entitlements';
 
 export interface AuthRequest extends Request {
   user?: {
@@ -10,6 +15,7 @@ export interface AuthRequest extends Request {
     email: string;
     userId: string;
     dbUser: any;
+    entitlements?: Entitlement[]; // Resolved on first use, see getEntitlements
   };
 }
 
@@ -36,7 +42,8 @@ export const authenticateToken = async (
     
     const cachedUser = await cache.get(cacheKey);
     if (cachedUser) {
-      user = JSON.parse(cachedUser);
+      // Hydrate so model methods such as isSubscriptionActive() work on cached users
+      user = User.hydrate(JSON.parse(cachedUser));
     } else {
       // Find user in database
       user = await User.findOne({ firebaseUid: decodedToken.uid });
@@ -56,6 +63,9 @@ export const authenticateToken = async (
         
         await user.save();
         console.log(`✅ New user created: ${user.email}`);
+        
+        // Create the Stripe customer ahead of checkout, outside the request
+        await jobQueue.enqueue('stripe.create_customer', { userId: (user._id as mongoose.Types.ObjectId).toString() });
       }
       
       // Cache user for 15 minutes
@@ -69,7 +79,7 @@ export const authenticateToken = async (
     req.user = {
       uid: decodedToken.uid,
       email: decodedToken.email!,
-      userId: user._id.toString(),
+      userId: (user._id as mongoose.Types.ObjectId).toString(),
       dbUser: user,
     };
 
@@ -133,6 +143,7 @@ export const requireSubscription = async (
         error: 'Active subscription required',
         subscriptionStatus: user.subscription.status,
         trialExpired: user.isTrialExpired(),
+        gracePeriodEnded: user.subscription.status === 'past_due',
       });
       return;
     }
@@ -157,8 +168,8 @@ export const requirePremium = async (
 
     const user = req.user.dbUser;
     
-    // Check if user has active paid subscription (not trial)
-    if (user.subscription.status !== 'active') {
+    // Check if user has active paid subscription (not trial); a failed renewal keeps access during the grace period
+    if (user.subscription.status !== 'active' && !user.isInGracePeriod()) {
       res.status(403).json({ 
         error: 'Premium subscription required',
         subscriptionStatus: user.subscription.status,
@@ -174,6 +185,44 @@ export const requirePremium = async (
   }
 };
 
+// Entitlements of the authenticated user, resolved once per request
+export const getEntitlements = async (req: AuthRequest): Promise<Entitlement[]> => {
+  if (!req.user) return [];
+  if (!req.user.entitlements) {
+    req.user.entitlements = await entitlementService.resolve(req.user.dbUser);
+  }
+  return req.user.entitlements;
+};
+
+export const requireEntitlement = (entitlement: Entitlement) => async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const entitlements = await getEntitlements(req);
+    if (!entitlements.includes(entitlement)) {
+      res.status(403).json({
+        error: 'Feature not included in your plan',
+        entitlement,
+        subscriptionStatus: req.user.dbUser.subscription.status,
+        message: 'Upgrade your plan to use this feature',
+      });
+      return;
+    }
+
+    next();
+  } catch (error) {
+    console.error('❌ Entitlement check failed:', error);
+    res.status(500).json({ error: 'Failed to verify entitlements' });
+  }
+};
+
 export const adminOnly = async (
   req: AuthRequest,
   res: Response,
@@ -206,14 +255,16 @@ export const updateFCMToken = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const fcmToken = req.headers['fcm-token'] as string;
+    const fcmToken = (req.body?.fcmToken || req.headers['fcm-token']) as string;
     
     if (fcmToken && req.user) {
-      const user = await User.findById(req.user.userId);
-      if (user && !user.fcmTokens.includes(fcmToken)) {
-        user.fcmTokens.push(fcmToken);
-        await user.save();
-        
+      const user = await deviceService.registerDevice(req.user.userId, {
+        token: fcmToken,
+        platform: req.body?.platform || req.headers['x-device-platform'],
+        appVersion: req.body?.appVersion || req.headers['x-app-version'],
+      });
+      
+      if (user) {
         // Update cache
         const cacheKey = `user:${req.user.uid}`;
         await cache.set(cacheKey, JSON.stringify(user), 900);
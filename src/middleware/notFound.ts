@@ -12,21 +12,63 @@ export const notFound = (req: Request, res: Response, next: NextFunction): void
       'GET /health',
       'POST /api/auth/login',
       'POST /api/auth/logout',
+      'GET /api/auth/devices',
       'GET /api/users/profile',
       'PUT /api/users/profile',
+      'GET /api/users/export',
       'GET /api/progress',
       'POST /api/progress',
       'PUT /api/progress/:id',
       'DELETE /api/progress/:id',
       'GET /api/progress/compare',
+      'GET /api/progress/streak',
+      'GET /api/workouts',
+      'POST /api/workouts',
+      'PUT /api/workouts/:id',
+      'DELETE /api/workouts/:id',
+      'GET /api/exercises',
+      'GET /api/exercises/:id',
+      'GET /api/exercises/custom',
+      'POST /api/exercises/custom',
+      'GET /api/records',
+      'GET /api/records/:exerciseId',
+      'GET /api/subscriptions/plans',
+      'GET /api/subscriptions/plans/all (admin)',
+      'POST /api/subscriptions/plans (admin)',
+      'PUT /api/subscriptions/plans/:key (admin)',
+      'DELETE /api/subscriptions/plans/:key (admin)',
       'POST /api/subscriptions/create',
+      'POST /api/subscriptions/checkout-session',
+      'POST /api/subscriptions/portal',
+      'POST /api/subscriptions/change-plan',
       'POST /api/subscriptions/cancel',
+      'GET /api/subscriptions/lifecycle/dry-run (admin)',
       'POST /api/subscriptions/webhook',
+      'GET /api/subscriptions/webhook/events (admin)',
+      'POST /api/subscriptions/webhook/events/:eventId/replay (admin)',
       'GET /api/notifications/settings',
       'PUT /api/notifications/settings',
+      'GET /api/notifications/history',
+      'GET /api/notifications/history/unread-count',
+      'PUT /api/notifications/history/read-all',
+      'PUT /api/notifications/history/:id/read',
+      'GET /api/notifications/campaigns (admin)',
+      'POST /api/notifications/campaigns (admin)',
+      'POST /api/notifications/campaigns/preview (admin)',
+      'GET /api/notifications/campaigns/:id (admin)',
+      'POST /api/notifications/campaigns/:id/cancel (admin)',
+      'GET /api/notifications/templates (admin)',
+      'PUT /api/notifications/templates/:key/:locale (admin)',
+      'DELETE /api/notifications/templates/:key/:locale (admin)',
       'GET /api/logs (admin)',
       'GET /api/logs/dashboard (admin)',
       'GET /api/logs/export (admin)',
+      'GET /api/jobs (admin)',
+      'GET /api/jobs/queue (admin)',
+      'GET /api/jobs/:name/runs (admin)',
+      'POST /api/jobs/:name/run (admin)',
+      'POST /api/jobs/:name/pause (admin)',
+      'POST /api/jobs/:name/resume (admin)',
     ],
   });
 };
\ No newline at end of file
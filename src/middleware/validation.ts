@@ -1,6 +1,12 @@
 import { Request, Response, NextFunction } from 'express';
 import Joi from 'joi';
 import { AppError } from './errorHandler';
+import { MUSCLE_GROUPS, EQUIPMENT_TYPES, MOVEMENT_PATTERNS } from '@/models/Exercise';
+import { SUBSCRIPTION_STATUSES } from '@/models/User';
+import { isValidTimezone } from '@/utils/timezone';
+import { LOCALE_PATTERN } from '@/config/notificationTemplates';
+import { PLAN_INTERVALS, PLAN_KEY_PATTERN, LEGACY_PRICE_IDENTIFIERS } from '@/models/Plan';
+import { ENTITLEMENTS } from '@/config/entitlements';
 
 export const validate = (schema: Joi.ObjectSchema) => {
   return (req: Request, res: Response, next: NextFunction): void => {
@@ -44,6 +50,43 @@ export const validateParams = (schema: Joi.ObjectSchema) => {
   };
 };
 
+const timezone = Joi.string().max(64).custom((value, helpers) => {
+  return isValidTimezone(value) ? value : helpers.error('any.invalid');
+});
+
+const locale = Joi.string().pattern(LOCALE_PATTERN, 'locale');
+
+const campaignSegment = Joi.object({
+  userIds: Joi.array().items(Joi.string().pattern(/^[0-9a-fA-F]{24}$/, 'MongoDB ObjectId')).min(1).max(1000),
+  subscriptionStatus: Joi.array().items(Joi.string().valid(...SUBSCRIPTION_STATUSES)),
+  lastActiveWithinDays: Joi.number().integer().min(1).max(365),
+  inactiveForDays: Joi.number().integer().min(1).max(365),
+  trialEndingWithinDays: Joi.number().integer().min(1).max(30),
+  noProgressInDays: Joi.number().integer().min(1).max(365),
+}).min(1);
+
+// Muscle names must be one of the groups catalogue exercises are tagged with; Exercise enforces the same list
+const muscleGroup = Joi.string().valid(...MUSCLE_GROUPS);
+
+const planKey = Joi.string().pattern(PLAN_KEY_PATTERN, 'plan key');
+const entitlements = Joi.array().items(Joi.string().valid(...ENTITLEMENTS)).unique();
+
+const workoutExercise = Joi.object({
+  exerciseId: Joi.string().pattern(/^[0-9a-fA-F]{24}$/, 'MongoDB ObjectId'),
+  name: Joi.string().max(100).trim(),
+  muscleGroups: Joi.array().items(muscleGroup).min(1),
+  sets: Joi.array().items(Joi.object({
+    reps: Joi.number().integer().min(0).max(1000).required(),
+    weight: Joi.number().min(0).max(1000).required(), // kg
+    rpe: Joi.number().min(1).max(10),
+    isWarmup: Joi.boolean(),
+  })).min(1).max(50).required(),
+  notes: Joi.string().max(500).trim(),
+})
+  // Free-form entries must describe themselves, catalogue entries are filled in
+  .or('exerciseId', 'name')
+  .with('name', 'muscleGroups');
+
 // Common validation schemas
 export const schemas = {
   // User schemas
@@ -59,6 +102,8 @@ export const schemas = {
     settings: Joi.object({
       notificationsEnabled: Joi.boolean(),
       reminderTimes: Joi.array().items(Joi.string().pattern(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/)),
+      timezone,
+      locale,
       theme: Joi.string().valid('light', 'dark', 'system'),
       units: Joi.object({
         weight: Joi.string().valid('kg', 'lbs'),
@@ -90,7 +135,7 @@ export const schemas = {
 
   updateProgress: Joi.object({
     weight: Joi.number().min(20).max(500),
-    musclesTrained: Joi.array().items(Joi.string().valid('Chest', 'Upper Back', 'Lats', 'Biceps', 'Triceps', 'Shoulders', 'Abs', 'Glutes', 'Calves', 'Hamstrings', 'Quads')),
+    musclesTrained: Joi.array().items(muscleGroup),
     measurements: Joi.object({
       chest: Joi.number().min(50).max(200),
       waist: Joi.number().min(40).max(200),
@@ -123,10 +168,113 @@ export const schemas = {
     date2: Joi.date().required(),
   }),
 
+  // Workout schemas
+  createWorkout: Joi.object({
+    date: Joi.date().max('now').required(),
+    title: Joi.string().max(100).trim(),
+    exercises: Joi.array().items(workoutExercise).min(1).max(50).required(),
+    durationMinutes: Joi.number().integer().min(1).max(600),
+    notes: Joi.string().max(1000).trim(),
+  }),
+
+  updateWorkout: Joi.object({
+    date: Joi.date().max('now'),
+    title: Joi.string().max(100).trim(),
+    exercises: Joi.array().items(workoutExercise).min(1).max(50),
+    durationMinutes: Joi.number().integer().min(1).max(600),
+    notes: Joi.string().max(1000).trim(),
+  }),
+
+  workoutQuery: Joi.object({
+    startDate: Joi.date(),
+    endDate: Joi.date().min(Joi.ref('startDate')),
+    limit: Joi.number().integer().min(1).max(100).default(30),
+    page: Joi.number().integer().min(1).default(1),
+    sortOrder: Joi.string().valid('asc', 'desc').default('desc'),
+  }),
+
+  // Exercise schemas
+  createExercise: Joi.object({
+    name: Joi.string().max(100).trim().required(),
+    primaryMuscles: Joi.array().items(muscleGroup).min(1).unique().required(),
+    secondaryMuscles: Joi.array().items(muscleGroup).unique(),
+    equipment: Joi.string().valid(...EQUIPMENT_TYPES).required(),
+    movementPattern: Joi.string().valid(...MOVEMENT_PATTERNS).required(),
+  }),
+
+  updateExercise: Joi.object({
+    name: Joi.string().max(100).trim(),
+    primaryMuscles: Joi.array().items(muscleGroup).min(1).unique(),
+    secondaryMuscles: Joi.array().items(muscleGroup).unique(),
+    equipment: Joi.string().valid(...EQUIPMENT_TYPES),
+    movementPattern: Joi.string().valid(...MOVEMENT_PATTERNS),
+    isActive: Joi.boolean(),
+  }).min(1),
+
+  exerciseQuery: Joi.object({
+    search: Joi.string().max(100).trim(),
+    muscle: muscleGroup,
+    equipment: Joi.string().valid(...EQUIPMENT_TYPES),
+    movementPattern: Joi.string().valid(...MOVEMENT_PATTERNS),
+    limit: Joi.number().integer().min(1).max(100).default(50),
+    page: Joi.number().integer().min(1).default(1),
+  }),
+
   // Subscription schemas
   createSubscription: Joi.object({
-    priceId: Joi.string(),
+    plan: planKey,
+    priceId: Joi.string().valid(...Object.keys(LEGACY_PRICE_IDENTIFIERS)), // Deprecated, use `plan`
     promoCode: Joi.string().uppercase().trim(),
+  }).oxor('plan', 'priceId'),
+
+  createCheckoutSession: Joi.object({
+    plan: planKey.required(),
+  }),
+
+  changePlan: Joi.object({
+    plan: planKey.required(),
+    applyAt: Joi.string().valid('now', 'period_end').default('now'),
+    preview: Joi.boolean().default(false),
+    prorationDate: Joi.number().integer().positive(), // From a previous preview
+  }),
+
+  createPortalSession: Joi.object({
+    returnPath: Joi.string().pattern(/^\/[A-Za-z0-9/_-]*$/, 'path').max(200), // Relative to FRONTEND_URL
+  }),
+
+  createPlan: Joi.object({
+    key: planKey.required(),
+    name: Joi.string().max(100).trim().required(),
+    description: Joi.string().max(500),
+    stripePriceId: Joi.string().pattern(/^price_\w+$/, 'Stripe price id').required(),
+    interval: Joi.string().valid(...PLAN_INTERVALS).required(),
+    trialDays: Joi.number().integer().min(0).max(365),
+    entitlements: entitlements.required(), // Explicit, as a plan without any grants no features
+    displayPrice: Joi.object({ // Defaults to the Stripe price
+      amount: Joi.number().integer().min(0).required(),
+      currency: Joi.string().length(3).lowercase().required(),
+    }),
+    isActive: Joi.boolean(),
+    sortOrder: Joi.number().integer(),
+  }),
+
+  updatePlan: Joi.object({
+    name: Joi.string().max(100).trim(),
+    description: Joi.string().max(500).allow(''),
+    stripePriceId: Joi.string().pattern(/^price_\w+$/, 'Stripe price id'),
+    interval: Joi.string().valid(...PLAN_INTERVALS),
+    trialDays: Joi.number().integer().min(0).max(365),
+    entitlements,
+    displayPrice: Joi.object({
+      amount: Joi.number().integer().min(0).required(),
+      currency: Joi.string().length(3).lowercase().required(),
+    }),
+    isActive: Joi.boolean(),
+    sortOrder: Joi.number().integer(),
+  }).min(1),
+
+  planParams: Joi.object({
+    key: planKey.required(),
   }),
 
   applyPromoCode: Joi.object({
@@ -135,10 +283,81 @@ export const schemas = {
 
   // Notification schemas
   updateNotificationSettings: Joi.object({
-    notificationsEnabled: Joi.boolean().required(),
+    notificationsEnabled: Joi.boolean(),
     reminderTimes: Joi.array().items(
       Joi.string().pattern(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/)
     ).min(0).max(10),
+    timezone,
+    locale,
+    notificationCategories: Joi.object({
+      reminders: Joi.boolean(),
+      motivational: Joi.boolean(),
+      billing: Joi.boolean(),
+      marketing: Joi.boolean(),
+    }).min(1),
+    quietHours: Joi.object({
+      enabled: Joi.boolean(),
+      start: Joi.string().pattern(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/),
+      end: Joi.string().pattern(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/),
+    }).min(1),
+    maxNotificationsPerDay: Joi.number().integer().min(0).max(100),
+  }).min(1),
+
+  upsertNotificationTemplate: Joi.object({
+    title: Joi.string().required().max(100),
+    body: Joi.string().required().max(500),
+  }),
+
+  notificationTemplateParams: Joi.object({
+    key: Joi.string().required().max(100),
+    locale: locale.required(),
+  }),
+
+  notificationHistoryQuery: Joi.object({
+    type: Joi.string().max(50),
+    unreadOnly: Joi.boolean().default(false),
+    limit: Joi.number().integer().min(1).max(100).default(20),
+    page: Joi.number().integer().min(1).default(1),
+  }),
+
+  previewCampaign: Joi.object({
+    segment: campaignSegment.required(),
+  }),
+
+  createCampaign: Joi.object({
+    name: Joi.string().max(100).trim().required(),
+    title: Joi.string().required().max(100),
+    body: Joi.string().required().max(500),
+    data: Joi.object().pattern(Joi.string(), Joi.string()),
+    segment: campaignSegment.required(),
+    scheduledAt: Joi.date().min('now'), // Sent on the next dispatcher run when omitted
+  }),
+
+  campaignQuery: Joi.object({
+    status: Joi.string().valid('scheduled', 'sending', 'sent', 'canceled', 'failed'),
+    limit: Joi.number().integer().min(1).max(100).default(20),
+    page: Joi.number().integer().min(1).default(1),
+  }),
+
+  webhookEventQuery: Joi.object({
+    status: Joi.string().valid('processing', 'processed', 'ignored', 'failed'),
+    type: Joi.string().max(100),
+    userId: Joi.string().hex().length(24),
+    limit: Joi.number().integer().min(1).max(100).default(20),
+    page: Joi.number().integer().min(1).default(1),
+  }),
+
+  webhookEventParams: Joi.object({
+    eventId: Joi.string().pattern(/^evt_[A-Za-z0-9]+$/).required(),
+  }),
+
+  // Job console schemas
+  jobParams: Joi.object({
+    name: Joi.string().max(100).pattern(/^[a-z0-9-]+$/).required(),
+  }),
+
+  jobListQuery: Joi.object({
+    limit: Joi.number().integer().min(1).max(100).default(20),
   }),
 
   sendNotification: Joi.object({
@@ -146,7 +365,7 @@ export const schemas = {
     body: Joi.string().required().max(500),
     data: Joi.object(),
     userId: Joi.string(),
-    userIds: Joi.array().items(Joi.string()),
+    userIds: Joi.array().items(Joi.string()).min(1),
     scheduled: Joi.date().min('now'),
   }).xor('userId', 'userIds'),
 
@@ -171,6 +390,7 @@ export const schemas = {
       }),
     }),
     description: Joi.string().max(200).trim(),
+    entitlements, // Granted by free-period codes, every feature by default
     usageLimit: Joi.number().integer().min(1),
     validFrom: Joi.date().default('now'),
     validUntil: Joi.date().min(Joi.ref('validFrom')),
@@ -0,0 +1,110 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { SUBSCRIPTION_STATUSES, SubscriptionStatus } from '@/models/User';
+
+export interface ICampaignSegment {
+  userIds?: mongoose.Types.ObjectId[]; // Explicit recipients, combined with the filters below
+  subscriptionStatus?: SubscriptionStatus[];
+  lastActiveWithinDays?: number;
+  inactiveForDays?: number;
+  trialEndingWithinDays?: number;
+  noProgressInDays?: number;
+}
+
+export interface ICampaign extends Document {
+  name: string;
+  title: string;
+  body: string;
+  data: Record<string, string>;
+  segment: ICampaignSegment;
+  status: 'scheduled' | 'sending' | 'sent' | 'canceled' | 'failed';
+  scheduledAt: Date;
+  sentAt?: Date;
+  canceledAt?: Date;
+  createdBy: mongoose.Types.ObjectId; // Admin user ID
+  stats: {
+    targetedUsers: number;
+    targetedTokens: number;
+    successCount: number;
+    failureCount: number;
+  };
+  errorMessage?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CampaignSchema = new Schema<ICampaign>({
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100,
+  },
+  title: {
+    type: String,
+    required: true,
+    maxlength: 100,
+  },
+  body: {
+    type: String,
+    required: true,
+    maxlength: 500,
+  },
+  data: {
+    type: Schema.Types.Mixed,
+    default: {},
+  },
+  segment: {
+    userIds: {
+      type: [{ type: Schema.Types.ObjectId, ref: 'User' }],
+      default: undefined, // Absent means no recipient list, an empty list means nobody
+    },
+    subscriptionStatus: [{
+      type: String,
+      enum: SUBSCRIPTION_STATUSES,
+    }],
+    lastActiveWithinDays: Number,
+    inactiveForDays: Number,
+    trialEndingWithinDays: Number,
+    noProgressInDays: Number,
+  },
+  status: {
+    type: String,
+    enum: ['scheduled', 'sending', 'sent', 'canceled', 'failed'],
+    default: 'scheduled',
+    index: true,
+  },
+  scheduledAt: {
+    type: Date,
+    required: true,
+    index: true,
+  },
+  sentAt: Date,
+  canceledAt: Date,
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  stats: {
+    targetedUsers: { type: Number, default: 0 },
+    targetedTokens: { type: Number, default: 0 },
+    successCount: { type: Number, default: 0 },
+    failureCount: { type: Number, default: 0 },
+  },
+  errorMessage: String,
+}, {
+  timestamps: true,
+});
+
+// Indexes
+CampaignSchema.index({ status: 1, scheduledAt: 1 }); // For dispatching due campaigns
+CampaignSchema.index({ createdAt: -1 });
+
+// Methods
+CampaignSchema.methods.toJSON = function() {
+  const campaign = this.toObject();
+  delete campaign.__v;
+  return campaign;
+};
+
+export const Campaign = mongoose.model<ICampaign>('Campaign', CampaignSchema);
@@ -0,0 +1,109 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+export const MUSCLE_GROUPS = [
+  'Chest', 'Upper Back', 'Lats', 'Biceps', 'Triceps', 'Shoulders',
+  'Abs', 'Glutes', 'Calves', 'Hamstrings', 'Quads',
+] as const;
+
+export const EQUIPMENT_TYPES = [
+  'barbell', 'dumbbell', 'machine', 'cable', 'bodyweight', 'kettlebell', 'band', 'other',
+] as const;
+
+export const MOVEMENT_PATTERNS = [
+  'push', 'pull', 'squat', 'hinge', 'lunge', 'carry', 'core', 'isolation',
+] as const;
+
+export type MuscleGroup = typeof MUSCLE_GROUPS[number];
+export type EquipmentType = typeof EQUIPMENT_TYPES[number];
+export type MovementPattern = typeof MOVEMENT_PATTERNS[number];
+
+export interface IExercise extends Document {
+  name: string;
+  primaryMuscles: MuscleGroup[];
+  secondaryMuscles: MuscleGroup[];
+  equipment: EquipmentType;
+  movementPattern: MovementPattern;
+  isCustom: boolean;
+  createdBy?: mongoose.Types.ObjectId; // Owner of a custom exercise
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IExerciseModel extends Model<IExercise> {
+  // Static methods
+  findVisibleToUser(ids: string[], userId: string): Promise<IExercise[]>;
+}
+
+const ExerciseSchema = new Schema<IExercise>({
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100,
+  },
+  primaryMuscles: {
+    type: [{ type: String, enum: MUSCLE_GROUPS }],
+    validate: {
+      validator: (muscles: string[]) => muscles.length > 0,
+      message: 'An exercise must target at least one primary muscle',
+    },
+  },
+  secondaryMuscles: [{
+    type: String,
+    enum: MUSCLE_GROUPS,
+  }],
+  equipment: {
+    type: String,
+    enum: EQUIPMENT_TYPES,
+    required: true,
+    index: true,
+  },
+  movementPattern: {
+    type: String,
+    enum: MOVEMENT_PATTERNS,
+    required: true,
+    index: true,
+  },
+  isCustom: {
+    type: Boolean,
+    default: false,
+    index: true,
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+  },
+  isActive: {
+    type: Boolean,
+    default: true,
+  },
+}, {
+  timestamps: true,
+});
+
+// Catalogue names are unique, custom names are unique per user
+ExerciseSchema.index({ name: 1, createdBy: 1 }, { unique: true });
+ExerciseSchema.index({ primaryMuscles: 1 });
+ExerciseSchema.index({ isCustom: 1, isActive: 1, name: 1 });
+
+// Methods
+ExerciseSchema.methods.toJSON = function() {
+  const exercise = this.toObject();
+  delete exercise.__v;
+  return exercise;
+};
+
+// Static methods
+ExerciseSchema.statics.findVisibleToUser = function(ids: string[], userId: string) {
+  return this.find({
+    _id: { $in: ids },
+    isActive: true,
+    $or: [
+      { isCustom: false },
+      { isCustom: true, createdBy: userId }
+    ]
+  });
+};
+
+export const Exercise = mongoose.model<IExercise, IExerciseModel>('Exercise', ExerciseSchema);
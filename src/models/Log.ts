@@ -115,6 +115,7 @@ LogSchema.index({ level: 1, type: 1, createdAt: -1 });
 LogSchema.index({ status: 1, createdAt: -1 });
 LogSchema.index({ userIP: 1, type: 1, createdAt: -1 });
 LogSchema.index({ action: 1, createdAt: -1 });
+LogSchema.index({ action: 1, 'data.job': 1, createdAt: -1 }); // Job run history
 
 // TTL index to automatically delete old logs (keep for 90 days)
 LogSchema.index({ createdAt: 1 }, { expireAfterSeconds: 90 * 24 * 60 * 60 });
@@ -0,0 +1,111 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+export interface INotificationDelivery {
+  token: string;
+  status: 'sent' | 'failed';
+  messageId?: string;
+  errorCode?: string;
+}
+
+export interface INotification extends Document {
+  userId: mongoose.Types.ObjectId;
+  type: string; // e.g. 'progress_reminder', 'motivational', 'trial_expiry'
+  title: string;
+  body: string;
+  data: Record<string, string>;
+  deliveries: INotificationDelivery[];
+  status: 'sent' | 'partial' | 'failed';
+  readAt?: Date;
+  openedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface INotificationModel extends Model<INotification> {
+  // Static methods
+  getUnreadCount(userId: string): Promise<number>;
+  markAllRead(userId: string): Promise<number>;
+}
+
+const NotificationDeliverySchema = new Schema<INotificationDelivery>({
+  token: {
+    type: String,
+    required: true,
+  },
+  status: {
+    type: String,
+    enum: ['sent', 'failed'],
+    required: true,
+  },
+  messageId: String,
+  errorCode: String,
+}, { _id: false });
+
+const NotificationSchema = new Schema<INotification>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true,
+  },
+  type: {
+    type: String,
+    required: true,
+    index: true,
+  },
+  title: {
+    type: String,
+    required: true,
+  },
+  body: {
+    type: String,
+    required: true,
+  },
+  data: {
+    type: Schema.Types.Mixed,
+    default: {},
+  },
+  deliveries: {
+    type: [NotificationDeliverySchema],
+    default: [],
+  },
+  status: {
+    type: String,
+    enum: ['sent', 'partial', 'failed'],
+    required: true,
+  },
+  readAt: Date,
+  openedAt: Date,
+}, {
+  timestamps: true,
+});
+
+// Compound indexes
+NotificationSchema.index({ userId: 1, createdAt: -1 }); // For inbox
+NotificationSchema.index({ userId: 1, readAt: 1 }); // For unread badge
+
+// TTL index to automatically delete old notifications (keep for 180 days)
+NotificationSchema.index({ createdAt: 1 }, { expireAfterSeconds: 180 * 24 * 60 * 60 });
+
+// Methods
+NotificationSchema.methods.toJSON = function() {
+  const notification = this.toObject();
+  delete notification.__v;
+  delete notification.deliveries; // Don't expose device tokens in API responses
+  return notification;
+};
+
+// Static methods
+NotificationSchema.statics.getUnreadCount = function(userId: string) {
+  return this.countDocuments({ userId, readAt: null, status: { $ne: 'failed' } });
+};
+
+NotificationSchema.statics.markAllRead = async function(userId: string): Promise<number> {
+  const result = await this.updateMany(
+    { userId, readAt: null },
+    { $set: { readAt: new Date() } }
+  );
+  return result.modifiedCount;
+};
+
+export const Notification = mongoose.model<INotification, INotificationModel>('Notification', NotificationSchema);
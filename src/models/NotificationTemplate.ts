@@ -0,0 +1,53 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Admin-edited copy that overrides the built-in template for one locale
+export interface INotificationTemplate extends Document {
+  key: string; // e.g. 'progress_reminder.12', see config/notificationTemplates
+  locale: string; // e.g. 'en', 'de', 'pt-BR'
+  title: string;
+  body: string;
+  updatedBy?: mongoose.Types.ObjectId; // Admin user ID
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const NotificationTemplateSchema = new Schema<INotificationTemplate>({
+  key: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  locale: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  title: {
+    type: String,
+    required: true,
+    maxlength: 100,
+  },
+  body: {
+    type: String,
+    required: true,
+    maxlength: 500,
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+  },
+}, {
+  timestamps: true,
+});
+
+// Indexes
+NotificationTemplateSchema.index({ key: 1, locale: 1 }, { unique: true });
+
+// Methods
+NotificationTemplateSchema.methods.toJSON = function() {
+  const template = this.toObject();
+  delete template.__v;
+  return template;
+};
+
+export const NotificationTemplate = mongoose.model<INotificationTemplate>('NotificationTemplate', NotificationTemplateSchema);
@@ -0,0 +1,127 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+export type RecordType = 'estimated_1rm' | 'best_set_volume' | 'rep_max';
+
+export interface IPersonalRecord extends Document {
+  userId: mongoose.Types.ObjectId;
+  exerciseId: mongoose.Types.ObjectId;
+  exerciseName: string;
+  workoutId: mongoose.Types.ObjectId;
+  type: RecordType;
+  value: number; // kg for estimated_1rm, kg x reps for best_set_volume, reps for rep_max
+  weight: number; // in kg, load of the set that set the record
+  reps: number;
+  estimates?: {
+    epley?: number;
+    brzycki?: number;
+  };
+  previousValue?: number; // null when this is the first record of its kind
+  achievedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IPersonalRecordModel extends Model<IPersonalRecord> {
+  // Static methods
+  getCurrentRecords(userId: string, exerciseId?: string): Promise<IPersonalRecord[]>;
+  getExerciseHistory(userId: string, exerciseId: string, limit?: number): Promise<IPersonalRecord[]>;
+}
+
+const PersonalRecordSchema = new Schema<IPersonalRecord>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true,
+  },
+  exerciseId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Exercise',
+    required: true,
+  },
+  exerciseName: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  workoutId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Workout',
+    required: true,
+    index: true,
+  },
+  type: {
+    type: String,
+    enum: ['estimated_1rm', 'best_set_volume', 'rep_max'],
+    required: true,
+  },
+  value: {
+    type: Number,
+    required: true,
+    min: 0,
+  },
+  weight: {
+    type: Number,
+    required: true,
+    min: 0,
+  },
+  reps: {
+    type: Number,
+    required: true,
+    min: 1,
+  },
+  estimates: {
+    epley: Number,
+    brzycki: Number,
+  },
+  previousValue: Number,
+  achievedAt: {
+    type: Date,
+    required: true,
+  },
+}, {
+  timestamps: true,
+});
+
+// Compound indexes
+PersonalRecordSchema.index({ userId: 1, exerciseId: 1, type: 1, value: -1 }); // For current bests
+PersonalRecordSchema.index({ userId: 1, exerciseId: 1, achievedAt: -1 }); // For PR history
+
+// Methods
+PersonalRecordSchema.methods.toJSON = function() {
+  const record = this.toObject();
+  delete record.__v;
+  return record;
+};
+
+// Static methods
+PersonalRecordSchema.statics.getCurrentRecords = function(userId: string, exerciseId?: string) {
+  const match: any = { userId: new mongoose.Types.ObjectId(userId) };
+  if (exerciseId) match.exerciseId = new mongoose.Types.ObjectId(exerciseId);
+
+  return this.aggregate([
+    { $match: match },
+    { $sort: { value: -1, achievedAt: 1 } },
+    {
+      // Rep maxes are tracked per load, the other record types per exercise
+      $group: {
+        _id: {
+          exerciseId: '$exerciseId',
+          type: '$type',
+          weight: { $cond: [{ $eq: ['$type', 'rep_max'] }, '$weight', null] }
+        },
+        record: { $first: '$$ROOT' }
+      }
+    },
+    { $replaceRoot: { newRoot: '$record' } },
+    { $sort: { exerciseName: 1, type: 1, weight: -1 } }
+  ]);
+};
+
+PersonalRecordSchema.statics.getExerciseHistory = function(userId: string, exerciseId: string, limit: number = 100) {
+  return this.find({ userId, exerciseId })
+    .sort({ achievedAt: -1, createdAt: -1 })
+    .limit(limit);
+};
+
+export const PersonalRecord = mongoose.model<IPersonalRecord, IPersonalRecordModel>('PersonalRecord', PersonalRecordSchema);
@@ -0,0 +1,131 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+import { ENTITLEMENTS, Entitlement } from '@/config/entitlements';
+
+export const PLAN_INTERVALS = ['month', 'year'] as const;
+
+export type PlanInterval = typeof PLAN_INTERVALS[number];
+
+// Lowercase slug, e.g. 'monthly' or 'pro_yearly'; stored on users as `subscription.plan`
+export const PLAN_KEY_PATTERN = /^[a-z0-9_-]{2,50}$/;
+
+// `priceId` values accepted by POST /subscriptions/create before plans were configurable
+export const LEGACY_PRICE_IDENTIFIERS: Record<string, string> = {
+  price_monthly: 'monthly',
+  price_yearly: 'yearly',
+};
+
+// A sellable tier, backed by one recurring Stripe price
+export interface IPlan extends Document {
+  key: string;
+  name: string;
+  description?: string;
+  stripePriceId: string;
+  interval: PlanInterval;
+  trialDays: number; // Offered on a user's first Stripe subscription, 0 for none
+  entitlements: Entitlement[]; // Features unlocked by the plan
+  displayPrice: {
+    amount: number; // In the smallest currency unit
+    currency: string; // ISO code, lowercase
+  };
+  isActive: boolean; // Inactive plans are no longer sold but still apply to existing subscribers
+  sortOrder: number;
+  createdBy?: mongoose.Types.ObjectId; // Admin user ID
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IPlanModel extends Model<IPlan> {
+  // Static methods
+  findActiveByKey(key: string): Promise<IPlan | null>;
+  findByPriceId(priceId: string): Promise<IPlan | null>;
+}
+
+const PlanSchema = new Schema<IPlan>({
+  key: {
+    type: String,
+    required: true,
+    unique: true,
+    lowercase: true,
+    trim: true,
+    match: PLAN_KEY_PATTERN,
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100,
+  },
+  description: {
+    type: String,
+    maxlength: 500,
+  },
+  stripePriceId: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true,
+  },
+  interval: {
+    type: String,
+    enum: PLAN_INTERVALS,
+    required: true,
+  },
+  trialDays: {
+    type: Number,
+    default: 0,
+    min: 0,
+    max: 365,
+  },
+  entitlements: [{
+    type: String,
+    enum: ENTITLEMENTS,
+  }],
+  displayPrice: {
+    amount: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    currency: {
+      type: String,
+      required: true,
+      lowercase: true,
+      minlength: 3,
+      maxlength: 3,
+    },
+  },
+  isActive: {
+    type: Boolean,
+    default: true,
+    index: true,
+  },
+  sortOrder: {
+    type: Number,
+    default: 0,
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+  },
+}, {
+  timestamps: true,
+});
+
+// Methods
+PlanSchema.methods.toJSON = function() {
+  const plan = this.toObject();
+  delete plan.__v;
+  return plan;
+};
+
+// Static methods
+PlanSchema.statics.findActiveByKey = function(key: string) {
+  return this.findOne({ key, isActive: true });
+};
+
+// Includes inactive plans, whose existing subscribers are still billed for them
+PlanSchema.statics.findByPriceId = function(priceId: string) {
+  return this.findOne({ stripePriceId: priceId });
+};
+
+export const Plan = mongoose.model<IPlan, IPlanModel>('Plan', PlanSchema);
@@ -4,7 +4,8 @@ export interface IProgress extends Document {
   userId: mongoose.Types.ObjectId;
   date: Date;
   weight: number; // in kg,
-  musclesTrained: string[]; // e.g., ['chest', 'back', 'legs']
+  musclesTrained: string[]; // e.g., ['Chest', 'Lats', 'Quads']
+  workoutMuscles?: string[]; // Part of musclesTrained that came from the day's workouts
   photos: {
     front?: string; // URL to Cloudflare R2
     side?: string;  // URL to Cloudflare R2
@@ -48,6 +49,16 @@ const ProgressSchema = new Schema<IProgress>({
     min: 20, // 20kg minimum
     max: 500, // 500kg maximum
   },
+  // Left as free text so entries saved before the muscle-group list was enforced stay valid;
+  // request payloads are restricted to MUSCLE_GROUPS in the validation schemas
+  musclesTrained: [{
+    type: String,
+    trim: true,
+  }],
+  workoutMuscles: {
+    type: [String],
+    default: undefined,
+  },
   photos: {
     front: {
       type: String,
@@ -1,10 +1,12 @@
 import mongoose, { Document, Schema, Model } from 'mongoose';
+import { ENTITLEMENTS, Entitlement } from '@/config/entitlements';
 
 export interface IPromoCode extends Document {
   code: string;
   type: 'free_month' | 'free_year' | 'lifetime' | 'discount_percent' | 'discount_amount';
   value?: number; // percentage (0-100) or amount in cents
   description?: string;
+  entitlements: Entitlement[]; // Features granted by free-period codes
   isActive: boolean;
   usageLimit?: number; // null = unlimited
   usedCount: number;
@@ -67,6 +69,10 @@ const PromoCodeSchema = new Schema<IPromoCode>({
     maxlength: 200,
     trim: true,
   },
+  entitlements: {
+    type: [{ type: String, enum: ENTITLEMENTS }],
+    default: () => [...ENTITLEMENTS],
+  },
   isActive: {
     type: Boolean,
     default: true,
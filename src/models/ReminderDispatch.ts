@@ -0,0 +1,91 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+// Record of a reminder sent to a user, used to make each milestone fire exactly once
+export interface IReminderDispatch extends Document {
+  userId: mongoose.Types.ObjectId;
+  milestone: string; // e.g. 'trial_2_days', 'trial_winback'
+  referenceDate: Date; // Date the milestone is relative to, e.g. the trial end
+  channel?: string; // 'push' or 'email', unset until the send succeeds
+  sentAt: Date;
+  expiresAt?: Date; // Recurring reminders are removed after this; one-off milestones are kept
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IReminderDispatchModel extends Model<IReminderDispatch> {
+  // Static methods
+  claim(userId: mongoose.Types.ObjectId | string, milestone: string, referenceDate: Date): Promise<IReminderDispatch | null>;
+  claimMany(userIds: string[], milestone: string, referenceDate: Date, expiresAt?: Date): Promise<string[]>;
+}
+
+const ReminderDispatchSchema = new Schema<IReminderDispatch>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  milestone: {
+    type: String,
+    required: true,
+  },
+  referenceDate: {
+    type: Date,
+    required: true,
+  },
+  channel: String,
+  sentAt: {
+    type: Date,
+    default: Date.now,
+  },
+  expiresAt: Date,
+}, {
+  timestamps: true,
+});
+
+// A milestone fires once per user and reference date (a new trial gets new reminders)
+ReminderDispatchSchema.index({ userId: 1, milestone: 1, referenceDate: 1 }, { unique: true });
+ReminderDispatchSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Methods
+ReminderDispatchSchema.methods.toJSON = function() {
+  const dispatch = this.toObject();
+  delete dispatch.__v;
+  return dispatch;
+};
+
+// Static methods
+// Atomically record the dispatch; returns null when it was already claimed
+ReminderDispatchSchema.statics.claim = async function(
+  userId: mongoose.Types.ObjectId | string,
+  milestone: string,
+  referenceDate: Date
+): Promise<IReminderDispatch | null> {
+  try {
+    return await this.create({ userId, milestone, referenceDate });
+  } catch (error) {
+    if ((error as any)?.code === 11000) return null;
+    throw error;
+  }
+};
+
+// Claim the milestone for many users at once; returns the ids of the users it was not yet claimed for
+ReminderDispatchSchema.statics.claimMany = async function(
+  userIds: string[],
+  milestone: string,
+  referenceDate: Date,
+  expiresAt?: Date
+): Promise<string[]> {
+  if (userIds.length === 0) return [];
+
+  const dispatches = userIds.map(userId => ({ userId, milestone, referenceDate, expiresAt }));
+  try {
+    const inserted = await this.insertMany(dispatches, { ordered: false });
+    return inserted.map((dispatch: IReminderDispatch) => dispatch.userId.toString());
+  } catch (error: any) {
+    // Unordered inserts keep going past duplicates; anything else is a real failure
+    if (!error?.writeErrors?.every((writeError: any) => writeError.code === 11000)) throw error;
+    return (error.insertedDocs || []).map((dispatch: IReminderDispatch) => dispatch.userId.toString());
+  }
+};
+
+export const ReminderDispatch = mongoose.model<IReminderDispatch, IReminderDispatchModel>('ReminderDispatch', ReminderDispatchSchema);
@@ -1,4 +1,24 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { DEFAULT_TIMEZONE, isValidTimezone } from '@/utils/timezone';
+import { DEFAULT_LOCALE, LOCALE_PATTERN } from '@/config/notificationTemplates';
+import { ENTITLEMENTS, Entitlement } from '@/config/entitlements';
+
+export const DEVICE_PLATFORMS = ['ios', 'android', 'web', 'unknown'] as const;
+export type DevicePlatform = typeof DEVICE_PLATFORMS[number];
+
+export const NOTIFICATION_CATEGORIES = ['reminders', 'motivational', 'billing', 'marketing'] as const;
+export type NotificationCategory = typeof NOTIFICATION_CATEGORIES[number];
+
+export const SUBSCRIPTION_STATUSES = ['free_trial', 'active', 'past_due', 'canceled', 'expired'] as const;
+export type SubscriptionStatus = typeof SUBSCRIPTION_STATUSES[number];
+
+export interface IDevice {
+  token: string; // FCM registration token
+  platform: DevicePlatform;
+  appVersion?: string;
+  lastSeenAt: Date;
+  registeredAt: Date;
+}
 
 export interface IUser extends Document {
   firebaseUid: string;
@@ -7,20 +27,39 @@ export interface IUser extends Document {
   photoURL?: string;
   phoneNumber?: string;
   isEmailVerified: boolean;
-  fcmTokens: string[];
+  devices: IDevice[];
   subscription: {
-    status: 'free_trial' | 'active' | 'canceled' | 'expired';
+    status: SubscriptionStatus;
     stripeCustomerId?: string;
     stripeSubscriptionId?: string;
     currentPeriodStart?: Date;
     currentPeriodEnd?: Date;
     trialEndsAt?: Date;
     canceledAt?: Date;
-    plan: 'monthly' | 'yearly';
+    plan: string; // Plan key, see models/Plan
+    source?: 'stripe' | 'promo'; // What granted the current paid access
+    promoEntitlements?: Entitlement[]; // Copied from the redeemed promo code while source is 'promo'
+    lastEventAt?: Date; // `created` of the last applied Stripe event; older deliveries are ignored
+    dunning?: { // Set by a failed payment and kept through the downgrade until the subscription recovers
+      invoiceId?: string;
+      attemptCount: number;
+      firstFailedAt: Date;
+      nextRetryAt?: Date; // Unset when Stripe will not retry again
+      graceEndsAt: Date; // Access is kept until then
+    };
   };
   settings: {
     notificationsEnabled: boolean;
     reminderTimes: string[]; // ['12:00', '18:00', '22:00', '23:00']
+    timezone: string; // IANA timezone, e.g. 'Europe/Berlin'
+    locale: string; // Language for notification copy, e.g. 'en', 'pt-BR'
+    notificationCategories: Record<NotificationCategory, boolean>;
+    quietHours: {
+      enabled: boolean;
+      start: string; // HH:MM in the user's timezone
+      end: string; // HH:MM, may be earlier than start to span midnight
+    };
+    maxNotificationsPerDay: number; // 0 = unlimited
     theme: 'light' | 'dark' | 'system';
     units: {
       weight: 'kg' | 'lbs';
@@ -33,12 +72,18 @@ export interface IUser extends Document {
     gender?: 'male' | 'female' | 'other';
     activityLevel?: 'sedentary' | 'light' | 'moderate' | 'active' | 'very_active';
   };
+  streakMilestones: {
+    milestone: number;
+    streakStartedOn: string; // YYYY-MM-DD in the user's timezone
+    notifiedAt: Date;
+  }[];
   isActive: boolean;
   lastActiveAt: Date;
   createdAt: Date;
   updatedAt: Date;
   updateLastActive(): Promise<IUser>;
   isTrialExpired(): boolean;
+  isInGracePeriod(): boolean;
   isSubscriptionActive(): boolean;
 }
 
@@ -71,13 +116,31 @@ const UserSchema = new Schema<IUser>({
     type: Boolean,
     default: false,
   },
-  fcmTokens: [{
-    type: String,
+  devices: [{
+    _id: false,
+    token: {
+      type: String,
+      required: true,
+    },
+    platform: {
+      type: String,
+      enum: DEVICE_PLATFORMS,
+      default: 'unknown',
+    },
+    appVersion: String,
+    lastSeenAt: {
+      type: Date,
+      default: Date.now,
+    },
+    registeredAt: {
+      type: Date,
+      default: Date.now,
+    },
   }],
   subscription: {
     status: {
       type: String,
-      enum: ['free_trial', 'active', 'canceled', 'expired'],
+      enum: SUBSCRIPTION_STATUSES,
       default: 'free_trial',
     },
     stripeCustomerId: String,
@@ -91,19 +154,63 @@ const UserSchema = new Schema<IUser>({
     canceledAt: Date,
     plan: {
       type: String,
-      enum: ['monthly', 'yearly'],
       default: 'monthly',
     },
+    source: {
+      type: String,
+      enum: ['stripe', 'promo'],
+    },
+    promoEntitlements: {
+      type: [{ type: String, enum: ENTITLEMENTS }],
+      default: undefined,
+    },
+    lastEventAt: Date,
+    dunning: {
+      invoiceId: String,
+      attemptCount: Number,
+      firstFailedAt: Date,
+      nextRetryAt: Date,
+      graceEndsAt: Date,
+    },
   },
   settings: {
     notificationsEnabled: {
       type: Boolean,
       default: true,
     },
-    reminderTimes: [{
-      type: String,
+    reminderTimes: {
+      type: [String],
       default: ['12:00', '18:00', '22:00', '23:00'],
-    }],
+    },
+    timezone: {
+      type: String,
+      default: DEFAULT_TIMEZONE,
+      validate: {
+        validator: isValidTimezone,
+        message: 'Invalid timezone',
+      },
+    },
+    locale: {
+      type: String,
+      default: DEFAULT_LOCALE,
+      match: LOCALE_PATTERN,
+    },
+    notificationCategories: {
+      reminders: { type: Boolean, default: true },
+      motivational: { type: Boolean, default: true },
+      billing: { type: Boolean, default: true },
+      marketing: { type: Boolean, default: true },
+    },
+    quietHours: {
+      enabled: { type: Boolean, default: false },
+      start: { type: String, default: '22:00' },
+      end: { type: String, default: '08:00' },
+    },
+    maxNotificationsPerDay: {
+      type: Number,
+      default: 10,
+      min: 0,
+    },
     theme: {
       type: String,
       enum: ['light', 'dark', 'system'],
@@ -134,6 +241,12 @@ const UserSchema = new Schema<IUser>({
       enum: ['sedentary', 'light', 'moderate', 'active', 'very_active'],
     },
   },
+  streakMilestones: [{
+    _id: false,
+    milestone: Number,
+    streakStartedOn: String,
+    notifiedAt: Date,
+  }],
   isActive: {
     type: Boolean,
     default: true,
@@ -149,8 +262,11 @@ const UserSchema = new Schema<IUser>({
 // Indexes
 UserSchema.index({ 'subscription.status': 1 });
 UserSchema.index({ 'subscription.trialEndsAt': 1 });
+UserSchema.index({ 'subscription.status': 1, 'subscription.currentPeriodEnd': 1 }); // For the lifecycle job
 UserSchema.index({ createdAt: -1 });
 UserSchema.index({ lastActiveAt: -1 });
+UserSchema.index({ 'devices.token': 1 }); // For mapping push results back to owners
+UserSchema.index({ 'settings.timezone': 1, 'settings.reminderTimes': 1 }); // For reminder runs
 
 // Methods
 UserSchema.methods.toJSON = function() {
@@ -169,9 +285,20 @@ UserSchema.methods.isTrialExpired = function(): boolean {
   return this.subscription.trialEndsAt && this.subscription.trialEndsAt < new Date();
 };
 
+// A failed renewal keeps access until the dunning grace period ends
+UserSchema.methods.isInGracePeriod = function(): boolean {
+  if (this.subscription.status !== 'past_due') return false;
+  return !!this.subscription.dunning?.graceEndsAt && this.subscription.dunning.graceEndsAt > new Date();
+};
+
 UserSchema.methods.isSubscriptionActive = function(): boolean {
   return this.subscription.status === 'active' || 
-         (this.subscription.status === 'free_trial' && !this.isTrialExpired());
+         (this.subscription.status === 'free_trial' && !this.isTrialExpired()) ||
+         this.isInGracePeriod();
 };
 
-export const User = mongoose.model<IUser>('User', UserSchema);
\ No newline at end of file
+export const User = mongoose.model<IUser>('User', UserSchema);
+
+// FCM tokens of all registered devices. Works on documents and on cached plain objects.
+export const getDeviceTokens = (user: { devices?: IDevice[] }): string[] =>
+  (user.devices || []).map(device => device.token);
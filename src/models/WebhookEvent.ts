@@ -0,0 +1,118 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+export type WebhookEventStatus = 'processing' | 'processed' | 'ignored' | 'failed';
+
+// Ledger of received Stripe webhook events, used for deduplication and replay
+export interface IWebhookEvent extends Document {
+  eventId: string; // Stripe event id, e.g. 'evt_...'
+  type: string;
+  eventCreatedAt: Date; // `event.created`, used to ignore events older than the applied state
+  payload: Record<string, any>; // Full event as received
+  status: WebhookEventStatus;
+  result?: string; // What processing did, e.g. 'subscription_updated' or 'stale_event'
+  error?: string;
+  userId?: mongoose.Types.ObjectId;
+  attempts: number;
+  replayCount: number;
+  processedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IWebhookEventModel extends Model<IWebhookEvent> {
+  // Static methods
+  claim(eventId: string, type: string, eventCreatedAt: Date, payload: Record<string, any>): Promise<{ event: IWebhookEvent; duplicate: boolean }>;
+}
+
+// A 'processing' claim older than this is assumed abandoned (e.g. the instance crashed)
+const PROCESSING_TIMEOUT_MS = 5 * 60 * 1000;
+
+const WebhookEventSchema = new Schema<IWebhookEvent>({
+  eventId: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  type: {
+    type: String,
+    required: true,
+    index: true,
+  },
+  eventCreatedAt: {
+    type: Date,
+    required: true,
+  },
+  payload: {
+    type: Schema.Types.Mixed,
+    required: true,
+  },
+  status: {
+    type: String,
+    enum: ['processing', 'processed', 'ignored', 'failed'],
+    default: 'processing',
+    index: true,
+  },
+  result: String,
+  error: String,
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    index: true,
+  },
+  attempts: {
+    type: Number,
+    default: 1,
+  },
+  replayCount: {
+    type: Number,
+    default: 0,
+  },
+  processedAt: Date,
+}, {
+  timestamps: true,
+});
+
+WebhookEventSchema.index({ createdAt: -1 });
+
+// Methods
+WebhookEventSchema.methods.toJSON = function() {
+  const event = this.toObject();
+  delete event.__v;
+  return event;
+};
+
+// Static methods
+// Record a received event. Events already handled, or being handled right now, are duplicates;
+// failed or abandoned ones are claimed again so Stripe's retry can process them.
+WebhookEventSchema.statics.claim = async function(
+  eventId: string,
+  type: string,
+  eventCreatedAt: Date,
+  payload: Record<string, any>
+): Promise<{ event: IWebhookEvent; duplicate: boolean }> {
+  try {
+    const event = await this.create({ eventId, type, eventCreatedAt, payload });
+    return { event, duplicate: false };
+  } catch (error) {
+    if ((error as any)?.code !== 11000) throw error;
+  }
+
+  const retried = await this.findOneAndUpdate(
+    {
+      eventId,
+      $or: [
+        { status: 'failed' },
+        { status: 'processing', updatedAt: { $lt: new Date(Date.now() - PROCESSING_TIMEOUT_MS) } },
+      ],
+    },
+    { $set: { status: 'processing' }, $unset: { error: 1 }, $inc: { attempts: 1 } },
+    { new: true }
+  );
+  if (retried) {
+    return { event: retried, duplicate: false };
+  }
+
+  return { event: await this.findOne({ eventId }), duplicate: true };
+};
+
+export const WebhookEvent = mongoose.model<IWebhookEvent, IWebhookEventModel>('WebhookEvent', WebhookEventSchema);
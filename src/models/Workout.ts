@@ -0,0 +1,165 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+import { MUSCLE_GROUPS } from '@/models/Exercise';
+import { getDateKeyRange } from '@/utils/timezone';
+
+export interface IWorkoutSet {
+  reps: number;
+  weight: number; // in kg
+  rpe?: number; // 1-10 rate of perceived exertion
+  isWarmup?: boolean;
+}
+
+export interface IWorkoutExercise {
+  exerciseId?: mongoose.Types.ObjectId; // Catalogue or custom exercise
+  name: string;
+  muscleGroups: string[]; // e.g., ['Chest', 'Triceps']
+  sets: IWorkoutSet[];
+  notes?: string;
+}
+
+export interface IWorkout extends Document {
+  userId: mongoose.Types.ObjectId;
+  date: Date;
+  title?: string;
+  exercises: IWorkoutExercise[];
+  durationMinutes?: number;
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Instance methods
+  getMusclesTrained(): string[];
+  getTotalVolume(): number;
+}
+
+export interface IWorkoutModel extends Model<IWorkout> {
+  // Static methods
+  getWorkoutsForDay(userId: string, dateKey: string, timezone?: string): Promise<IWorkout[]>;
+}
+
+const WorkoutSetSchema = new Schema<IWorkoutSet>({
+  reps: {
+    type: Number,
+    required: true,
+    min: 0,
+    max: 1000,
+  },
+  weight: {
+    type: Number,
+    required: true,
+    min: 0,
+    max: 1000, // 1000kg maximum
+  },
+  rpe: {
+    type: Number,
+    min: 1,
+    max: 10,
+  },
+  isWarmup: {
+    type: Boolean,
+    default: false,
+  },
+}, { _id: false });
+
+const WorkoutExerciseSchema = new Schema<IWorkoutExercise>({
+  exerciseId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Exercise',
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100,
+  },
+  muscleGroups: [{
+    type: String,
+    enum: MUSCLE_GROUPS,
+  }],
+  sets: {
+    type: [WorkoutSetSchema],
+    default: [],
+  },
+  notes: {
+    type: String,
+    maxlength: 500,
+    trim: true,
+  },
+}, { _id: false });
+
+const WorkoutSchema = new Schema<IWorkout>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true,
+  },
+  date: {
+    type: Date,
+    required: true,
+    index: true,
+  },
+  title: {
+    type: String,
+    maxlength: 100,
+    trim: true,
+  },
+  exercises: {
+    type: [WorkoutExerciseSchema],
+    validate: {
+      validator: (exercises: IWorkoutExercise[]) => exercises.length > 0,
+      message: 'A workout must contain at least one exercise',
+    },
+  },
+  durationMinutes: {
+    type: Number,
+    min: 1,
+    max: 600,
+  },
+  notes: {
+    type: String,
+    maxlength: 1000,
+    trim: true,
+  },
+}, {
+  timestamps: true,
+});
+
+// Compound indexes
+WorkoutSchema.index({ userId: 1, date: -1 }); // For user's workout history
+
+// Methods
+WorkoutSchema.methods.toJSON = function() {
+  const workout = this.toObject();
+  delete workout.__v;
+  return workout;
+};
+
+WorkoutSchema.methods.getMusclesTrained = function(): string[] {
+  const muscles = new Set<string>();
+  for (const exercise of this.exercises as IWorkoutExercise[]) {
+    exercise.muscleGroups.forEach(muscle => muscles.add(muscle));
+  }
+  return Array.from(muscles);
+};
+
+WorkoutSchema.methods.getTotalVolume = function(): number {
+  return (this.exercises as IWorkoutExercise[]).reduce((total, exercise) => {
+    return total + exercise.sets
+      .filter(set => !set.isWarmup)
+      .reduce((sum, set) => sum + set.reps * set.weight, 0);
+  }, 0);
+};
+
+// Static methods
+// Workouts on a local calendar day (YYYY-MM-DD) in the user's timezone
+WorkoutSchema.statics.getWorkoutsForDay = function(userId: string, dateKey: string, timezone?: string) {
+  const { start, end } = getDateKeyRange(dateKey, timezone);
+
+  return this.find({
+    userId,
+    date: { $gte: start, $lt: end }
+  }).sort({ date: 1 });
+};
+
+export const Workout = mongoose.model<IWorkout, IWorkoutModel>('Workout', WorkoutSchema);
@@ -1,10 +1,13 @@
 import { Router, Response } from 'express';
-import { authenticateToken, updateFCMToken, AuthRequest } from '@/middleware/auth';
+import { authenticateToken, updateFCMToken, getEntitlements, AuthRequest } from '@/middleware/auth';
 import { validate, schemas } from '@/middleware/validation';
 import { asyncHandler } from '@/middleware/errorHandler';
-import { User } from '@/models/User';
+import { User, DEVICE_PLATFORMS } from '@/models/User';
 import { cache } from '@/config/redis';
 import Logger from '@/services/logger';
+import { deviceService } from '@/services/deviceService';
+import { notificationService } from '@/services/notificationService';
+import { toRecipient } from '@/services/notificationChannels';
 import Joi from 'joi';
 
 const router = Router();
@@ -12,6 +15,8 @@ const router = Router();
 // Login/Register (handled by Firebase Auth, this just updates FCM token)
 const loginSchema = Joi.object({
   fcmToken: Joi.string(),
+  platform: Joi.string().valid(...DEVICE_PLATFORMS),
+  appVersion: Joi.string().max(50),
 });
 
 router.post('/login', 
@@ -60,10 +65,8 @@ router.post('/logout',
     const userId = req.user!.userId;
     const user = req.user!.dbUser;
     
-    // Remove FCM token from user
-    await User.findByIdAndUpdate(userId, {
-      $pull: { fcmTokens: fcmToken }
-    });
+    // Remove this device from the user
+    await deviceService.removeDevice(userId, fcmToken);
     
     // Clear user cache
     const cacheKey = `user:${req.user!.uid}`;
@@ -129,11 +132,14 @@ router.get('/subscription-status',
         status: user.subscription.status,
         isActive: user.isSubscriptionActive(),
         isTrialExpired: user.isTrialExpired(),
+        isInGracePeriod: user.isInGracePeriod(),
         trialEndsAt: user.subscription.trialEndsAt,
         currentPeriodStart: user.subscription.currentPeriodStart,
         currentPeriodEnd: user.subscription.currentPeriodEnd,
         canceledAt: user.subscription.canceledAt,
         plan: user.subscription.plan,
+        entitlements: await getEntitlements(req),
+        dunning: user.subscription.status === 'past_due' ? user.subscription.dunning : null,
       },
     });
   })
@@ -143,16 +149,19 @@ router.get('/subscription-status',
 const updateFCMTokenSchema = Joi.object({
   fcmToken: Joi.string().required(),
   oldToken: Joi.string(),
+  platform: Joi.string().valid(...DEVICE_PLATFORMS),
+  appVersion: Joi.string().max(50),
 });
 
 router.put('/fcm-token',
   authenticateToken,
   validate(updateFCMTokenSchema),
   asyncHandler(async (req: AuthRequest, res: Response) => {
-    const { fcmToken, oldToken } = req.body;
+    const { fcmToken, oldToken, platform, appVersion } = req.body;
     const userId = req.user!.userId;
     
-    const user = await User.findById(userId);
+    // Replaces the old token's device entry if provided
+    const user = await deviceService.registerDevice(userId, { token: fcmToken, platform, appVersion }, oldToken);
     if (!user) {
       return res.status(404).json({
         success: false,
@@ -160,18 +169,6 @@ router.put('/fcm-token',
       });
     }
     
-    // Remove old token if provided
-    if (oldToken && user.fcmTokens.includes(oldToken)) {
-      user.fcmTokens = user.fcmTokens.filter(token => token !== oldToken);
-    }
-    
-    // Add new token if not already present
-    if (!user.fcmTokens.includes(fcmToken)) {
-      user.fcmTokens.push(fcmToken);
-    }
-    
-    await user.save();
-    
     // Update cache
     const cacheKey = `user:${req.user!.uid}`;
     await cache.set(cacheKey, JSON.stringify(user), 900);
@@ -183,6 +180,26 @@ router.put('/fcm-token',
   })
 );
 
+// List registered devices
+router.get('/devices',
+  authenticateToken,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const user = await User.findById(req.user!.userId, { devices: 1 });
+    
+    res.json({
+      success: true,
+      data: {
+        devices: (user?.devices || []).map(device => ({
+          platform: device.platform,
+          appVersion: device.appVersion,
+          lastSeenAt: device.lastSeenAt,
+          registeredAt: device.registeredAt,
+        })),
+      },
+    });
+  })
+);
+
 // Delete account
 router.delete('/account',
   authenticateToken,
@@ -201,6 +218,8 @@ router.delete('/account',
     const cacheKey = `user:${firebaseUid}`;
     await cache.del(cacheKey);
     
+    await notificationService.sendAccountDeletionConfirmation(toRecipient(user));
+    
     await Logger.logAuth('account_deactivation', userId.toString(), user.email, 'success', {
       reason: 'user_request',
       subscription: user.subscription.status,
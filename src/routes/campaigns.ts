@@ -0,0 +1,157 @@
+import { Router, Response } from 'express';
+import { authenticateToken, adminOnly, AuthRequest } from '@/middleware/auth';
+import { validate, validateQuery, validateParams, schemas } from '@/middleware/validation';
+import { asyncHandler } from '@/middleware/errorHandler';
+import { Campaign } from '@/models/Campaign';
+import { campaignService } from '@/services/campaignService';
+import Logger from '@/services/logger';
+import mongoose from 'mongoose';
+
+const router = Router();
+
+// All campaign endpoints are admin only
+router.use(authenticateToken, adminOnly);
+
+// Preview audience size for a segment
+router.post('/preview',
+  validate(schemas.previewCampaign),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const audience = await campaignService.previewAudience(req.body.segment);
+
+    res.json({
+      success: true,
+      data: { audience },
+    });
+  })
+);
+
+// Create campaign (scheduled, or sent on the next dispatcher run)
+router.post('/',
+  validate(schemas.createCampaign),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.userId;
+
+    const campaign = new Campaign({
+      ...req.body,
+      scheduledAt: req.body.scheduledAt || new Date(),
+      createdBy: userId,
+    });
+
+    await campaign.save();
+
+    const audience = await campaignService.previewAudience(campaign.segment);
+
+    await Logger.logNotification('campaign_created', userId, {
+      campaignId: (campaign._id as mongoose.Types.ObjectId).toString(),
+      name: campaign.name,
+      scheduledAt: campaign.scheduledAt,
+      segment: req.body.segment,
+      audience,
+    }, 'success', req);
+
+    res.status(201).json({
+      success: true,
+      data: { campaign, audience },
+      message: 'Campaign scheduled successfully',
+    });
+  })
+);
+
+// List campaigns
+router.get('/',
+  validateQuery(schemas.campaignQuery),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { status, page = 1, limit = 20 } = req.query;
+
+    const query: any = {};
+    if (status) query.status = status;
+
+    const skip = (Number(page) - 1) * Number(limit);
+
+    const [campaigns, total] = await Promise.all([
+      Campaign.find(query)
+        .sort({ scheduledAt: -1 })
+        .skip(skip)
+        .limit(Number(limit))
+        .populate('createdBy', 'email displayName'),
+      Campaign.countDocuments(query),
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        campaigns,
+        pagination: {
+          total,
+          page: Number(page),
+          limit: Number(limit),
+          totalPages: Math.ceil(total / Number(limit)),
+        },
+      },
+    });
+  })
+);
+
+// Get campaign details with delivery stats
+router.get('/:id',
+  validateParams(schemas.mongoId),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const campaign = await Campaign.findById(req.params.id)
+      .populate('createdBy', 'email displayName');
+
+    if (!campaign) {
+      return res.status(404).json({
+        success: false,
+        error: 'Campaign not found',
+      });
+    }
+
+    const stats = campaign.stats;
+    const deliveryRate = stats.targetedTokens > 0
+      ? Math.round((stats.successCount / stats.targetedTokens) * 10000) / 100
+      : 0;
+
+    return res.json({
+      success: true,
+      data: {
+        campaign,
+        stats: { ...stats, deliveryRate },
+      },
+    });
+  })
+);
+
+// Cancel a pending campaign
+router.post('/:id/cancel',
+  validateParams(schemas.mongoId),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+
+    const campaign = await Campaign.findOneAndUpdate(
+      { _id: id, status: 'scheduled' },
+      { $set: { status: 'canceled', canceledAt: new Date() } },
+      { new: true }
+    );
+
+    if (!campaign) {
+      return res.status(400).json({
+        success: false,
+        error: 'Campaign not found or no longer pending',
+      });
+    }
+
+    await Logger.logNotification('campaign_canceled', userId, {
+      campaignId: id,
+      name: campaign.name,
+    }, 'success', req);
+
+    return res.json({
+      success: true,
+      data: { campaign },
+      message: 'Campaign canceled successfully',
+    });
+  })
+);
+
+export default router;
@@ -0,0 +1,278 @@
+import { Router, Request, Response } from 'express';
+import { authenticateToken, adminOnly, AuthRequest } from '@/middleware/auth';
+import { validate, validateQuery, validateParams, schemas } from '@/middleware/validation';
+import { asyncHandler } from '@/middleware/errorHandler';
+import { Exercise } from '@/models/Exercise';
+import Logger from '@/services/logger';
+import mongoose from 'mongoose';
+
+const router = Router();
+
+const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const buildExerciseQuery = (filters: Record<string, any>, base: Record<string, any>): Record<string, any> => {
+  const { search, muscle, equipment, movementPattern } = filters;
+  const query: any = { ...base };
+  if (search) query.name = { $regex: escapeRegex(search as string), $options: 'i' };
+  if (muscle) query.$or = [{ primaryMuscles: muscle }, { secondaryMuscles: muscle }];
+  if (equipment) query.equipment = equipment;
+  if (movementPattern) query.movementPattern = movementPattern;
+  return query;
+};
+
+// Search exercise catalogue (public endpoint)
+router.get('/',
+  validateQuery(schemas.exerciseQuery),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { limit = 50, page = 1 } = req.query;
+    const query = buildExerciseQuery(req.query, { isCustom: false, isActive: true });
+
+    const skip = (Number(page) - 1) * Number(limit);
+
+    const [exercises, total] = await Promise.all([
+      Exercise.find(query)
+        .sort({ name: 1 })
+        .skip(skip)
+        .limit(Number(limit)),
+      Exercise.countDocuments(query),
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        exercises,
+        pagination: {
+          total,
+          page: Number(page),
+          limit: Number(limit),
+          totalPages: Math.ceil(total / Number(limit)),
+        },
+      },
+    });
+  })
+);
+
+// List the user's custom exercises
+router.get('/custom',
+  authenticateToken,
+  validateQuery(schemas.exerciseQuery),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.userId;
+    const query = buildExerciseQuery(req.query, { isCustom: true, createdBy: userId });
+
+    const exercises = await Exercise.find(query).sort({ name: 1 });
+
+    res.json({
+      success: true,
+      data: { exercises },
+    });
+  })
+);
+
+// Create custom exercise
+router.post('/custom',
+  authenticateToken,
+  validate(schemas.createExercise),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.userId;
+
+    const exercise = new Exercise({
+      ...req.body,
+      isCustom: true,
+      createdBy: userId,
+    });
+
+    await exercise.save();
+
+    await Logger.logUserAction('create_custom_exercise', userId, {
+      exerciseId: (exercise._id as mongoose.Types.ObjectId).toString(),
+      name: exercise.name,
+      primaryMuscles: exercise.primaryMuscles,
+    }, req);
+
+    res.status(201).json({
+      success: true,
+      data: { exercise },
+      message: 'Custom exercise created successfully',
+    });
+  })
+);
+
+// Update custom exercise
+router.put('/custom/:id',
+  authenticateToken,
+  validateParams(schemas.mongoId),
+  validate(schemas.updateExercise),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+
+    const exercise = await Exercise.findOneAndUpdate(
+      { _id: id, isCustom: true, createdBy: userId },
+      { $set: req.body },
+      { new: true, runValidators: true }
+    );
+
+    if (!exercise) {
+      return res.status(404).json({
+        success: false,
+        error: 'Exercise not found',
+      });
+    }
+
+    await Logger.logUserAction('update_custom_exercise', userId, {
+      exerciseId: id,
+      updatedFields: Object.keys(req.body),
+    }, req);
+
+    return res.json({
+      success: true,
+      data: { exercise },
+      message: 'Custom exercise updated successfully',
+    });
+  })
+);
+
+// Delete custom exercise
+router.delete('/custom/:id',
+  authenticateToken,
+  validateParams(schemas.mongoId),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+
+    const exercise = await Exercise.findOneAndDelete({ _id: id, isCustom: true, createdBy: userId });
+    if (!exercise) {
+      return res.status(404).json({
+        success: false,
+        error: 'Exercise not found',
+      });
+    }
+
+    await Logger.logUserAction('delete_custom_exercise', userId, {
+      exerciseId: id,
+      name: exercise.name,
+    }, req);
+
+    return res.json({
+      success: true,
+      message: 'Custom exercise deleted successfully',
+    });
+  })
+);
+
+// Get catalogue exercise details (public endpoint)
+router.get('/:id',
+  validateParams(schemas.mongoId),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const exercise = await Exercise.findOne({ _id: id, isCustom: false });
+    if (!exercise) {
+      return res.status(404).json({
+        success: false,
+        error: 'Exercise not found',
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: { exercise },
+    });
+  })
+);
+
+// Create catalogue exercise (admin only)
+router.post('/',
+  authenticateToken,
+  adminOnly,
+  validate(schemas.createExercise),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.userId;
+
+    const exercise = new Exercise({
+      ...req.body,
+      isCustom: false,
+    });
+
+    await exercise.save();
+
+    await Logger.logUserAction('exercise_created', userId, {
+      exerciseId: (exercise._id as mongoose.Types.ObjectId).toString(),
+      name: exercise.name,
+    }, req);
+
+    res.status(201).json({
+      success: true,
+      data: { exercise },
+      message: 'Exercise created successfully',
+    });
+  })
+);
+
+// Update catalogue exercise (admin only)
+router.put('/:id',
+  authenticateToken,
+  adminOnly,
+  validateParams(schemas.mongoId),
+  validate(schemas.updateExercise),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+
+    const exercise = await Exercise.findOneAndUpdate(
+      { _id: id, isCustom: false },
+      { $set: req.body },
+      { new: true, runValidators: true }
+    );
+
+    if (!exercise) {
+      return res.status(404).json({
+        success: false,
+        error: 'Exercise not found',
+      });
+    }
+
+    await Logger.logUserAction('exercise_updated', userId, {
+      exerciseId: id,
+      updatedFields: Object.keys(req.body),
+    }, req);
+
+    return res.json({
+      success: true,
+      data: { exercise },
+      message: 'Exercise updated successfully',
+    });
+  })
+);
+
+// Delete catalogue exercise (admin only)
+router.delete('/:id',
+  authenticateToken,
+  adminOnly,
+  validateParams(schemas.mongoId),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+
+    const exercise = await Exercise.findOneAndDelete({ _id: id, isCustom: false });
+    if (!exercise) {
+      return res.status(404).json({
+        success: false,
+        error: 'Exercise not found',
+      });
+    }
+
+    await Logger.logUserAction('exercise_deleted', userId, {
+      exerciseId: id,
+      name: exercise.name,
+    }, req);
+
+    return res.json({
+      success: true,
+      message: 'Exercise deleted successfully',
+    });
+  })
+);
+
+export default router;
@@ -0,0 +1,165 @@
+import { Router, Response } from 'express';
+import { authenticateToken, adminOnly, AuthRequest } from '@/middleware/auth';
+import { validateParams, validateQuery, schemas } from '@/middleware/validation';
+import { asyncHandler } from '@/middleware/errorHandler';
+import { jobScheduler } from '@/services/jobScheduler';
+import { jobQueue } from '@/services/jobQueue';
+import Logger from '@/services/logger';
+
+const router = Router();
+
+// All job endpoints are admin only
+router.use(authenticateToken, adminOnly);
+
+// Scheduled jobs with their last run, next run and the instance that ran them, plus queue sizes
+router.get('/',
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const [jobs, queue] = await Promise.all([
+      jobScheduler.getStatus(),
+      jobQueue.getCounts(),
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        instanceId: jobScheduler.instanceId,
+        jobs,
+        queue, // null when Redis is unavailable
+      },
+    });
+  })
+);
+
+// Queued background jobs: next ready jobs, pending retries and dead letters
+router.get('/queue',
+  validateQuery(schemas.jobListQuery),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const limit = Number(req.query.limit || 20);
+
+    const queue = await jobQueue.getOverview(limit);
+    if (!queue) {
+      return res.status(503).json({
+        success: false,
+        error: 'Job queue is unavailable',
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: { queue },
+    });
+  })
+);
+
+// Last runs of a scheduled job with duration and outcome
+router.get('/:name/runs',
+  validateParams(schemas.jobParams),
+  validateQuery(schemas.jobListQuery),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { name } = req.params;
+    const limit = Number(req.query.limit || 20);
+
+    if (!jobScheduler.has(name)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Job not found',
+      });
+    }
+
+    const logs = await jobScheduler.getRecentRuns(name, limit);
+    const runs = logs.map(log => ({
+      startedAt: log.data.startedAt,
+      finishedAt: log.createdAt,
+      durationMs: log.data.durationMs,
+      outcome: log.data.outcome,
+      error: log.data.error,
+      trigger: log.data.trigger,
+      instanceId: log.data.instanceId,
+    }));
+
+    return res.json({
+      success: true,
+      data: { name, runs },
+    });
+  })
+);
+
+// Run a job now, e.g. the trial expiry check
+router.post('/:name/run',
+  validateParams(schemas.jobParams),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { name } = req.params;
+
+    const result = await jobScheduler.trigger(name);
+    if (result === 'not_found') {
+      return res.status(404).json({
+        success: false,
+        error: 'Job not found',
+      });
+    }
+    if (result === 'running') {
+      return res.status(409).json({
+        success: false,
+        error: 'Job is already running',
+      });
+    }
+    if (result === 'paused') {
+      return res.status(409).json({
+        success: false,
+        error: 'Job is paused, resume it before running it',
+      });
+    }
+
+    await Logger.logSystem('job_triggered', { job: name, adminId: req.user!.userId, instanceId: jobScheduler.instanceId });
+
+    return res.status(202).json({
+      success: true,
+      message: `Job ${name} started`,
+    });
+  })
+);
+
+// Pause a job on every instance until it is resumed
+router.post('/:name/pause',
+  validateParams(schemas.jobParams),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { name } = req.params;
+
+    if (!(await jobScheduler.pause(name))) {
+      return res.status(404).json({
+        success: false,
+        error: 'Job not found',
+      });
+    }
+
+    await Logger.logSystem('job_paused', { job: name, adminId: req.user!.userId });
+
+    return res.json({
+      success: true,
+      message: `Job ${name} paused`,
+    });
+  })
+);
+
+router.post('/:name/resume',
+  validateParams(schemas.jobParams),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { name } = req.params;
+
+    if (!(await jobScheduler.resume(name))) {
+      return res.status(404).json({
+        success: false,
+        error: 'Job not found',
+      });
+    }
+
+    await Logger.logSystem('job_resumed', { job: name, adminId: req.user!.userId });
+
+    return res.json({
+      success: true,
+      message: `Job ${name} resumed`,
+    });
+  })
+);
+
+export default router;
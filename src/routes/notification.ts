@@ -1,9 +1,12 @@
 import { Router, Response } from 'express';
-import { authenticateToken, AuthRequest } from '@/middleware/auth';
-import { validate, schemas } from '@/middleware/validation';
+import { authenticateToken, adminOnly, AuthRequest } from '@/middleware/auth';
+import { validate, validateQuery, validateParams, schemas } from '@/middleware/validation';
 import { asyncHandler } from '@/middleware/errorHandler';
-import { User } from '@/models/User';
+import { User, getDeviceTokens } from '@/models/User';
+import { Notification } from '@/models/Notification';
+import { Campaign } from '@/models/Campaign';
 import { sendPushNotification } from '@/config/firebase';
+import { cache } from '@/config/redis';
 
 const router = Router();
 
@@ -28,17 +31,29 @@ router.put('/settings',
   validate(schemas.updateNotificationSettings),
   asyncHandler(async (req: AuthRequest, res: Response) => {
     const userId = req.user!.userId;
-    const { notificationsEnabled, reminderTimes } = req.body;
+    const { notificationCategories, quietHours, ...topLevel } = req.body;
+    
+    // Only touch the fields that were sent so partial updates keep the other preferences
+    const updates: Record<string, any> = {};
+    Object.entries(topLevel).forEach(([key, value]) => {
+      updates[`settings.${key}`] = value;
+    });
+    Object.entries(notificationCategories || {}).forEach(([category, enabled]) => {
+      updates[`settings.notificationCategories.${category}`] = enabled;
+    });
+    Object.entries(quietHours || {}).forEach(([key, value]) => {
+      updates[`settings.quietHours.${key}`] = value;
+    });
     
     const user = await User.findByIdAndUpdate(
       userId,
-      {
-        'settings.notificationsEnabled': notificationsEnabled,
-        'settings.reminderTimes': reminderTimes,
-      },
-      { new: true }
+      { $set: updates },
+      { new: true, runValidators: true }
     );
     
+    // Keep the cached user in sync with the new notification settings
+    await cache.set(`user:${req.user!.uid}`, JSON.stringify(user), 900);
+    
     res.json({
       success: true,
       data: { settings: user!.settings },
@@ -50,29 +65,34 @@ router.put('/settings',
 // Send test notification (admin only)
 router.post('/test',
   authenticateToken,
+  adminOnly,
   validate(schemas.sendNotification),
   asyncHandler(async (req: AuthRequest, res: Response) => {
-    const { title, body, data, userId, userIds } = req.body;
-    
-    // For now, allow any authenticated user to send test notifications
-    // In production, this should be admin-only
-    let targetTokens: string[] = [];
-    
-    if (userId) {
-      const user = await User.findById(userId);
-      if (user) {
-        targetTokens = user.fcmTokens;
-      }
-    } else if (userIds) {
-      const users = await User.find({ _id: { $in: userIds } });
-      targetTokens = users.flatMap(user => user.fcmTokens);
-    } else {
-      return res.status(400).json({
-        success: false,
-        error: 'Either userId or userIds must be provided',
+    const { title, body, data, userId, userIds, scheduled } = req.body;
+    const targetUserIds: string[] = userId ? [userId] : userIds;
+    
+    // Scheduled sends go through the campaign dispatcher
+    if (scheduled) {
+      const campaign = await Campaign.create({
+        name: `Test notification: ${title}`.slice(0, 100),
+        title,
+        body,
+        data: data || {},
+        segment: { userIds: targetUserIds },
+        scheduledAt: scheduled,
+        createdBy: req.user!.userId,
+      });
+      
+      return res.status(201).json({
+        success: true,
+        data: { campaign },
+        message: `Test notification scheduled for ${campaign.scheduledAt.toISOString()}`,
       });
     }
     
+    const users = await User.find({ _id: { $in: targetUserIds } });
+    const targetTokens = users.flatMap(getDeviceTokens);
+    
     if (targetTokens.length === 0) {
       return res.status(400).json({
         success: false,
@@ -98,20 +118,135 @@ router.post('/test',
   })
 );
 
-// Get notification history (if implemented)
+// Get notification history
 router.get('/history',
   authenticateToken,
+  validateQuery(schemas.notificationHistoryQuery),
   asyncHandler(async (req: AuthRequest, res: Response) => {
-    // This would require a notifications collection to track sent notifications
-    // For now, return empty array
+    const userId = req.user!.userId;
+    const { type, unreadOnly, limit = 20, page = 1 } = req.query;
+    
+    const query: any = { userId, status: { $ne: 'failed' } };
+    if (type) query.type = type;
+    if (unreadOnly === 'true') query.readAt = null;
+    
+    const skip = (Number(page) - 1) * Number(limit);
+    
+    const [notifications, total, unreadCount] = await Promise.all([
+      Notification.find(query)
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(Number(limit)),
+      Notification.countDocuments(query),
+      Notification.getUnreadCount(userId),
+    ]);
+    
     res.json({
       success: true,
       data: {
-        notifications: [],
-        message: 'Notification history feature not yet implemented',
+        notifications,
+        unreadCount,
+        pagination: {
+          total,
+          page: Number(page),
+          limit: Number(limit),
+          totalPages: Math.ceil(total / Number(limit)),
+        },
       },
     });
   })
 );
 
+// Get unread notification count (app badge)
+router.get('/history/unread-count',
+  authenticateToken,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const unreadCount = await Notification.getUnreadCount(req.user!.userId);
+    
+    res.json({
+      success: true,
+      data: { unreadCount },
+    });
+  })
+);
+
+// Mark all notifications as read
+router.put('/history/read-all',
+  authenticateToken,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const updated = await Notification.markAllRead(req.user!.userId);
+    
+    res.json({
+      success: true,
+      data: { updated, unreadCount: 0 },
+      message: 'All notifications marked as read',
+    });
+  })
+);
+
+// Mark a notification as read
+router.put('/history/:id/read',
+  authenticateToken,
+  validateParams(schemas.mongoId),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+    
+    const notification = await Notification.findOneAndUpdate(
+      { _id: id, userId },
+      [{ $set: { readAt: { $ifNull: ['$readAt', '$$NOW'] } } }],
+      { new: true }
+    );
+    
+    if (!notification) {
+      return res.status(404).json({
+        success: false,
+        error: 'Notification not found',
+      });
+    }
+    
+    const unreadCount = await Notification.getUnreadCount(userId);
+    
+    return res.json({
+      success: true,
+      data: { notification, unreadCount },
+    });
+  })
+);
+
+// Mark a notification as opened (tapped from the device), which also marks it read
+router.put('/history/:id/opened',
+  authenticateToken,
+  validateParams(schemas.mongoId),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+    
+    const notification = await Notification.findOneAndUpdate(
+      { _id: id, userId },
+      [{
+        $set: {
+          openedAt: { $ifNull: ['$openedAt', '$$NOW'] },
+          readAt: { $ifNull: ['$readAt', '$$NOW'] },
+        },
+      }],
+      { new: true }
+    );
+    
+    if (!notification) {
+      return res.status(404).json({
+        success: false,
+        error: 'Notification not found',
+      });
+    }
+    
+    const unreadCount = await Notification.getUnreadCount(userId);
+    
+    return res.json({
+      success: true,
+      data: { notification, unreadCount },
+    });
+  })
+);
+
 export default router;
@@ -0,0 +1,113 @@
+import { Router, Response } from 'express';
+import { authenticateToken, adminOnly, AuthRequest } from '@/middleware/auth';
+import { validate, validateParams, schemas } from '@/middleware/validation';
+import { asyncHandler } from '@/middleware/errorHandler';
+import { NotificationTemplate } from '@/models/NotificationTemplate';
+import { NOTIFICATION_TEMPLATES } from '@/config/notificationTemplates';
+import { templateService } from '@/services/templateService';
+import Logger from '@/services/logger';
+
+const router = Router();
+
+// All template endpoints are admin only
+router.use(authenticateToken, adminOnly);
+
+// List templates with built-in copy and admin overrides
+router.get('/',
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const overrides = await NotificationTemplate.find().sort({ key: 1, locale: 1 });
+
+    const templates = Object.entries(NOTIFICATION_TEMPLATES).map(([key, definition]) => ({
+      key,
+      description: definition.description,
+      variables: definition.variables,
+      defaults: definition.copy,
+      overrides: overrides.filter(override => override.key === key),
+    }));
+
+    res.json({
+      success: true,
+      data: { templates },
+    });
+  })
+);
+
+// Set the copy of a template for one locale
+router.put('/:key/:locale',
+  validateParams(schemas.notificationTemplateParams),
+  validate(schemas.upsertNotificationTemplate),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { key, locale } = req.params;
+    const { title, body } = req.body;
+    const userId = req.user!.userId;
+
+    if (!templateService.getDefinition(key)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Template not found',
+      });
+    }
+
+    const unknownVariables = templateService.findUnknownVariables(key, { title, body });
+    if (unknownVariables.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Template uses unknown variables',
+        unknownVariables,
+      });
+    }
+
+    const template = await NotificationTemplate.findOneAndUpdate(
+      { key, locale },
+      { $set: { title, body, updatedBy: userId } },
+      { new: true, upsert: true, runValidators: true }
+    );
+
+    await templateService.invalidate();
+
+    await Logger.logUserAction('notification_template_updated', userId, {
+      key,
+      locale,
+    }, req);
+
+    return res.json({
+      success: true,
+      data: {
+        template,
+        preview: await templateService.render(key, locale),
+      },
+      message: 'Template updated successfully',
+    });
+  })
+);
+
+// Remove an override, falling back to the built-in copy
+router.delete('/:key/:locale',
+  validateParams(schemas.notificationTemplateParams),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { key, locale } = req.params;
+    const userId = req.user!.userId;
+
+    const template = await NotificationTemplate.findOneAndDelete({ key, locale });
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        error: 'Template override not found',
+      });
+    }
+
+    await templateService.invalidate();
+
+    await Logger.logUserAction('notification_template_reset', userId, {
+      key,
+      locale,
+    }, req);
+
+    return res.json({
+      success: true,
+      message: 'Template reset to default copy',
+    });
+  })
+);
+
+export default router;
@@ -0,0 +1,155 @@
+import { Router, Request, Response } from 'express';
+import { authenticateToken, adminOnly, AuthRequest } from '@/middleware/auth';
+import { validate, validateParams, schemas } from '@/middleware/validation';
+import { asyncHandler } from '@/middleware/errorHandler';
+import { Plan } from '@/models/Plan';
+import Logger from '@/services/logger';
+import { planService } from '@/services/planService';
+
+const router = Router();
+
+// List plans available for purchase
+router.get('/',
+  asyncHandler(async (req: Request, res: Response) => {
+    const plans = await planService.listActivePlans();
+
+    res.json({
+      success: true,
+      data: { plans },
+    });
+  })
+);
+
+// List every plan, including inactive ones (admin only)
+router.get('/all',
+  authenticateToken,
+  adminOnly,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const plans = await Plan.find().sort({ isActive: -1, sortOrder: 1, createdAt: 1 });
+
+    res.json({
+      success: true,
+      data: { plans },
+    });
+  })
+);
+
+// Create plan (admin only)
+router.post('/',
+  authenticateToken,
+  adminOnly,
+  validate(schemas.createPlan),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.userId;
+    const { stripePriceId, interval, displayPrice } = req.body;
+
+    const price = await planService.checkStripePrice(stripePriceId, interval);
+    if ('error' in price) {
+      return res.status(400).json({
+        success: false,
+        error: price.error,
+      });
+    }
+
+    const plan = new Plan({
+      ...req.body,
+      displayPrice: displayPrice || price,
+      createdBy: userId,
+    });
+
+    await plan.save();
+    await planService.invalidate();
+
+    await Logger.logUserAction('plan_created', userId, {
+      key: plan.key,
+      stripePriceId,
+    }, req);
+
+    return res.status(201).json({
+      success: true,
+      data: { plan },
+      message: 'Plan created successfully',
+    });
+  })
+);
+
+// Update plan (admin only). The key is permanent because users reference it.
+router.put('/:key',
+  authenticateToken,
+  adminOnly,
+  validateParams(schemas.planParams),
+  validate(schemas.updatePlan),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { key } = req.params;
+    const userId = req.user!.userId;
+
+    const plan = await Plan.findOne({ key });
+    if (!plan) {
+      return res.status(404).json({
+        success: false,
+        error: 'Plan not found',
+      });
+    }
+
+    const { stripePriceId, interval } = req.body;
+    if (stripePriceId || interval) {
+      const price = await planService.checkStripePrice(stripePriceId || plan.stripePriceId, interval || plan.interval);
+      if ('error' in price) {
+        return res.status(400).json({
+          success: false,
+          error: price.error,
+        });
+      }
+    }
+
+    plan.set(req.body);
+    await plan.save();
+    await planService.invalidate();
+
+    await Logger.logUserAction('plan_updated', userId, {
+      key,
+      updatedFields: Object.keys(req.body),
+    }, req);
+
+    return res.json({
+      success: true,
+      data: { plan },
+      message: 'Plan updated successfully',
+    });
+  })
+);
+
+// Stop selling a plan (admin only). Existing subscribers keep it, so it is deactivated rather than deleted.
+router.delete('/:key',
+  authenticateToken,
+  adminOnly,
+  validateParams(schemas.planParams),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { key } = req.params;
+    const userId = req.user!.userId;
+
+    const plan = await Plan.findOneAndUpdate(
+      { key },
+      { $set: { isActive: false } },
+      { new: true }
+    );
+    if (!plan) {
+      return res.status(404).json({
+        success: false,
+        error: 'Plan not found',
+      });
+    }
+
+    await planService.invalidate();
+
+    await Logger.logUserAction('plan_deactivated', userId, { key }, req);
+
+    return res.json({
+      success: true,
+      data: { plan },
+      message: 'Plan deactivated successfully',
+    });
+  })
+);
+
+export default router;
@@ -1,10 +1,15 @@
-import { Router, Response } from 'express';
-import { authenticateToken, requireSubscription, AuthRequest } from '@/middleware/auth';
+import { Router, Response, NextFunction } from 'express';
+import { authenticateToken, requireSubscription, requireEntitlement, getEntitlements, AuthRequest } from '@/middleware/auth';
 import { validate, schemas, validateQuery } from '@/middleware/validation';
 import { asyncHandler } from '@/middleware/errorHandler';
 import { Progress } from '@/models/Progress';
-import { uploadImage } from '@/config/storage';
+import { uploadOriginalImage, deleteImageByKey, ProgressPhotoType } from '@/config/storage';
+import { workoutService } from '@/services/workoutService';
+import { streakService } from '@/services/streakService';
+import { jobQueue } from '@/services/jobQueue';
+import { entitlementService } from '@/services/entitlementService';
 import Logger from '@/services/logger';
+import { getStoredDateKey } from '@/utils/timezone';
 import multer from 'multer';
 import mongoose from 'mongoose';
 
@@ -14,6 +19,16 @@ const upload = multer({
   limits: { fileSize: 10 * 1024 * 1024 }, // 10MB
 });
 
+// Photos need their own entitlement; entries without photos only need the subscription
+const requirePhotoEntitlement = (req: AuthRequest, res: Response, next: NextFunction): void => {
+  const files = req.files as { [fieldname: string]: Express.Multer.File[] } | undefined;
+  if (!files || Object.keys(files).length === 0) {
+    next();
+    return;
+  }
+  void requireEntitlement('photo_uploads')(req, res, next);
+};
+
 // Get progress history
 router.get('/',
   authenticateToken,
@@ -29,6 +44,12 @@ router.get('/',
       if (endDate) query.date.$lte = new Date(endDate as string);
     }
     
+    // Without unlimited history, older entries are hidden
+    const historyStart = entitlementService.getHistoryStart(await getEntitlements(req));
+    if (historyStart && !(query.date?.$gte > historyStart)) {
+      query.date = { ...query.date, $gte: historyStart };
+    }
+    
     const skip = (Number(page) - 1) * Number(limit);
     const sortDirection = sortOrder === 'asc' ? 1 : -1;
     
@@ -49,6 +70,7 @@ router.get('/',
           limit: Number(limit),
           totalPages: Math.ceil(total / Number(limit)),
         },
+        historyStart,
       },
     });
   })
@@ -64,50 +86,149 @@ router.post('/',
     { name: 'back', maxCount: 1 },
     { name: 'pose', maxCount: 1 },
   ]),
+  requirePhotoEntitlement,
   validate(schemas.createProgress),
   asyncHandler(async (req: AuthRequest, res: Response) => {
     const userId = req.user!.userId;
     const files = req.files as { [fieldname: string]: Express.Multer.File[] };
     
-    // Upload images to Cloudflare R2
-    const photos: any = {};
-    if (files) {
-      for (const [type, fileArray] of Object.entries(files)) {
-        if (fileArray && fileArray[0]) {
-          const imageUrl = await uploadImage(fileArray[0].buffer, {
-            userId,
-            type: type as 'front' | 'side' | 'back' | 'pose',
-            date: req.body.date?.split('T')[0],
-          });
-          photos[type] = imageUrl;
-        }
-      }
-    }
-    
     const progress = new Progress({
       ...req.body,
       userId,
-      photos,
+      photos: {},
     });
     
-    await progress.save();
+    // Store the originals; resizing and publishing happen in the background
+    const uploads: { photoType: ProgressPhotoType; uploadKey: string }[] = [];
+    try {
+      if (files) {
+        for (const [type, fileArray] of Object.entries(files)) {
+          if (fileArray && fileArray[0]) {
+            const uploadKey = await uploadOriginalImage(fileArray[0].buffer, {
+              userId,
+              type: type as ProgressPhotoType,
+              contentType: fileArray[0].mimetype,
+            });
+            uploads.push({ photoType: type as ProgressPhotoType, uploadKey });
+          }
+        }
+      }
+      
+      await progress.save();
+    } catch (error) {
+      // Without an entry no job will pick the originals up, so remove them
+      await Promise.all(uploads.map(({ uploadKey }) => deleteImageByKey(uploadKey).catch(deleteError => {
+        console.error(`❌ Failed to delete orphaned upload ${uploadKey}:`, deleteError);
+      })));
+      throw error;
+    }
+    const progressId = (progress._id as mongoose.Types.ObjectId).toString();
+    
+    for (const { photoType, uploadKey } of uploads) {
+      await jobQueue.enqueue('progress.process_photo', {
+        progressId,
+        userId,
+        photoType,
+        uploadKey,
+        date: req.body.date?.split('T')[0],
+      });
+    }
     
+    // Pick up muscles from workouts already logged for this day
+    const musclesTrained = await workoutService.syncProgressMuscles(userId, getStoredDateKey(progress.date), req.user!.dbUser.settings?.timezone);
+    if (musclesTrained) {
+      progress.musclesTrained = musclesTrained;
+    }
+    
+    const streak = await streakService.handleNewEntry(userId, req.user!.dbUser.settings?.timezone);
+    
+    const pendingPhotos = uploads.map(upload => upload.photoType);
     await Logger.logUserAction('create_progress', userId, {
-      progressId: (progress._id as mongoose.Types.ObjectId).toString(),
+      progressId,
       date: progress.date,
       weight: progress.weight,
-      photoTypes: Object.keys(photos),
-      hasPhotos: Object.keys(photos).length > 0,
+      photoTypes: pendingPhotos,
+      hasPhotos: pendingPhotos.length > 0,
+      currentStreak: streak.currentStreak,
     }, req);
     
-    res.status(201).json({
+    return res.status(201).json({
       success: true,
-      data: { progress },
+      data: { progress, streak, pendingPhotos },
       message: 'Progress entry created successfully',
     });
   })
 );
 
+// Get current and longest logging streak
+router.get('/streak',
+  authenticateToken,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.userId;
+    const timezone = req.user!.dbUser.settings?.timezone;
+    
+    const streak = await streakService.getStreak(userId, timezone);
+    
+    res.json({
+      success: true,
+      data: { streak },
+    });
+  })
+);
+
+// Compare two progress entries; registered before /:id, which would otherwise match it
+router.get('/compare',
+  authenticateToken,
+  requireEntitlement('progress_comparison'),
+  validateQuery(schemas.compareQuery),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { date1, date2 } = req.query;
+    const userId = req.user!.userId;
+    
+    const [progress1, progress2] = await Promise.all([
+      Progress.findOne({ userId, date: new Date(date1 as string) }),
+      Progress.findOne({ userId, date: new Date(date2 as string) }),
+    ]);
+    
+    if (!progress1 || !progress2) {
+      return res.status(404).json({
+        success: false,
+        error: 'One or both progress entries not found',
+      });
+    }
+    
+    // Calculate differences
+    const weightDifference = progress2.weight - progress1.weight;
+    const daysBetween = Math.abs(
+      (new Date(progress2.date).getTime() - new Date(progress1.date).getTime()) / (1000 * 60 * 60 * 24)
+    );
+    
+    const measurementChanges: Record<string, number> = {};
+    if (progress1.measurements && progress2.measurements) {
+      for (const key of Object.keys(progress1.measurements)) {
+        const val1 = progress1.measurements[key as keyof typeof progress1.measurements];
+        const val2 = progress2.measurements[key as keyof typeof progress2.measurements];
+        if (val1 && val2) {
+          measurementChanges[key] = val2 - val1;
+        }
+      }
+    }
+
+    return res.json({
+      success: true,
+      data: {
+        progress1,
+        progress2,
+        comparison: {
+          weightDifference,
+          daysBetween,
+          measurementChanges,
+        },
+      },
+    });
+  })
+);
+
 // Get specific progress entry
 router.get('/:id',
   authenticateToken,
@@ -182,6 +303,8 @@ router.delete('/:id',
       });
     }
     
+    await streakService.invalidate(userId);
+    
     await Logger.logUserAction('delete_progress', userId, {
       progressId: id,
       date: progress.date,
@@ -196,56 +319,4 @@ router.delete('/:id',
   })
 );
 
-// Compare two progress entries
-router.get('/compare',
-  authenticateToken,
-  validateQuery(schemas.compareQuery),
-  asyncHandler(async (req: AuthRequest, res: Response) => {
-    const { date1, date2 } = req.query;
-    const userId = req.user!.userId;
-    
-    const [progress1, progress2] = await Promise.all([
-      Progress.findOne({ userId, date: new Date(date1 as string) }),
-      Progress.findOne({ userId, date: new Date(date2 as string) }),
-    ]);
-    
-    if (!progress1 || !progress2) {
-      return res.status(404).json({
-        success: false,
-        error: 'One or both progress entries not found',
-      });
-    }
-    
-    // Calculate differences
-    const weightDifference = progress2.weight - progress1.weight;
-    const daysBetween = Math.abs(
-      (new Date(progress2.date).getTime() - new Date(progress1.date).getTime()) / (1000 * 60 * 60 * 24)
-    );
-    
-    const measurementChanges: Record<string, number> = {};
-    if (progress1.measurements && progress2.measurements) {
-      for (const key of Object.keys(progress1.measurements)) {
-        const val1 = progress1.measurements[key as keyof typeof progress1.measurements];
-        const val2 = progress2.measurements[key as keyof typeof progress2.measurements];
-        if (val1 && val2) {
-          measurementChanges[key] = val2 - val1;
-        }
-      }
-    }
-
-    return res.json({
-      success: true,
-      data: {
-        progress1,
-        progress2,
-        comparison: {
-          weightDifference,
-          daysBetween,
-          measurementChanges,
-        },
-      },
-    });
-  })
-);
-
 export default router;
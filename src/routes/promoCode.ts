@@ -4,6 +4,7 @@ import { validate, schemas } from '@/middleware/validation';
 import { asyncHandler } from '@/middleware/errorHandler';
 import { PromoCode } from '@/models/PromoCode';
 import { User } from '@/models/User';
+import { cache } from '@/config/redis';
 import Logger from '@/services/logger';
 import mongoose from 'mongoose';
 
@@ -222,10 +223,15 @@ router.post('/:code/use',
         });
       }
       
+      // Free periods grant access on their own unless Stripe is already billing the user
+      const grantsAccess = ['free_month', 'free_year', 'lifetime'].includes(promoCode.type);
+      const billedByStripe = user.subscription.source === 'stripe' && user.subscription.status === 'active';
+      
       // Apply benefits based on promo code type
       switch (promoCode.type) {
         case 'free_month':
-          if (user.subscription.currentPeriodEnd) {
+          // Extend from the current end, or from now if that already passed
+          if (user.subscription.currentPeriodEnd && user.subscription.currentPeriodEnd > new Date()) {
             const currentEnd = new Date(user.subscription.currentPeriodEnd);
             currentEnd.setMonth(currentEnd.getMonth() + 1);
             user.subscription.currentPeriodEnd = currentEnd;
@@ -237,7 +243,8 @@ router.post('/:code/use',
           break;
           
         case 'free_year':
-          if (user.subscription.currentPeriodEnd) {
+          // Extend from the current end, or from now if that already passed
+          if (user.subscription.currentPeriodEnd && user.subscription.currentPeriodEnd > new Date()) {
             const currentEnd = new Date(user.subscription.currentPeriodEnd);
             currentEnd.setFullYear(currentEnd.getFullYear() + 1);
             user.subscription.currentPeriodEnd = currentEnd;
@@ -254,8 +261,17 @@ router.post('/:code/use',
           break;
       }
       
+      if (grantsAccess && !billedByStripe) {
+        user.subscription.status = 'active';
+        user.subscription.source = 'promo';
+        user.subscription.promoEntitlements = promoCode.entitlements;
+      }
+      
       await user.save();
       
+      // Keep the cached user in sync with the new subscription
+      await cache.del(`user:${req.user!.uid}`);
+      
       await Logger.logPromo('promo_code_used', userId, {
         promoCodeId: (promoCode._id as mongoose.Types.ObjectId).toString(),
         code: promoCode.code,
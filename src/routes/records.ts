@@ -0,0 +1,85 @@
+import { Router, Response } from 'express';
+import { authenticateToken, AuthRequest } from '@/middleware/auth';
+import { validateParams } from '@/middleware/validation';
+import { asyncHandler } from '@/middleware/errorHandler';
+import { PersonalRecord, IPersonalRecord } from '@/models/PersonalRecord';
+import Joi from 'joi';
+
+const router = Router();
+
+const exerciseParamSchema = Joi.object({
+  exerciseId: Joi.string().required().pattern(/^[0-9a-fA-F]{24}$/, 'MongoDB ObjectId'),
+});
+
+// Group current bests into one summary per exercise
+const summarizeRecords = (records: IPersonalRecord[]) => {
+  const byExercise = new Map<string, any>();
+
+  for (const record of records) {
+    const key = record.exerciseId.toString();
+    const summary = byExercise.get(key) || {
+      exerciseId: record.exerciseId,
+      exerciseName: record.exerciseName,
+      estimatedOneRepMax: null,
+      bestSetVolume: null,
+      repMaxes: [],
+    };
+
+    if (record.type === 'estimated_1rm') summary.estimatedOneRepMax = record;
+    if (record.type === 'best_set_volume') summary.bestSetVolume = record;
+    if (record.type === 'rep_max') summary.repMaxes.push(record);
+
+    byExercise.set(key, summary);
+  }
+
+  return Array.from(byExercise.values());
+};
+
+// Get current personal records for all exercises
+router.get('/',
+  authenticateToken,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.userId;
+
+    const records = await PersonalRecord.getCurrentRecords(userId);
+
+    res.json({
+      success: true,
+      data: {
+        records: summarizeRecords(records),
+      },
+    });
+  })
+);
+
+// Get current records and PR history for one exercise
+router.get('/:exerciseId',
+  authenticateToken,
+  validateParams(exerciseParamSchema),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.userId;
+    const { exerciseId } = req.params;
+
+    const [current, history] = await Promise.all([
+      PersonalRecord.getCurrentRecords(userId, exerciseId),
+      PersonalRecord.getExerciseHistory(userId, exerciseId),
+    ]);
+
+    if (history.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'No records found for this exercise',
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: {
+        current: summarizeRecords(current)[0],
+        history,
+      },
+    });
+  })
+);
+
+export default router;
@@ -1,11 +1,27 @@
 import { Router, Request, Response } from 'express';
-import { authenticateToken, AuthRequest } from '@/middleware/auth';
-import { validate, schemas } from '@/middleware/validation';
+import { authenticateToken, adminOnly, AuthRequest } from '@/middleware/auth';
+import { validate, validateParams, validateQuery, schemas } from '@/middleware/validation';
 import { asyncHandler } from '@/middleware/errorHandler';
 import { User } from '@/models/User';
 import { PromoCode } from '@/models/PromoCode';
-import { createCustomer, createSubscription, getStripe, verifyWebhookSignature } from '@/config/stripe';
+import { WebhookEvent } from '@/models/WebhookEvent';
+import { Plan, LEGACY_PRICE_IDENTIFIERS } from '@/models/Plan';
+import {
+  createSubscription,
+  createCheckoutSession,
+  createPortalSession,
+  getStripe,
+  getSubscription,
+  previewPlanChange,
+  changeSubscriptionPrice,
+  schedulePriceChange,
+  verifyWebhookSignature,
+} from '@/config/stripe';
+import { cache } from '@/config/redis';
 import Logger from '@/services/logger';
+import { subscriptionLifecycleService } from '@/services/subscriptionLifecycleService';
+import { billingService } from '@/services/billingService';
+import { stripeWebhookService } from '@/services/stripeWebhookService';
 import mongoose from 'mongoose';
 
 const router = Router();
@@ -21,39 +37,39 @@ router.post('/create',
     const { priceId, promoCode } = req.body;
     const user = req.user!.dbUser;
     
-    let stripeCustomer;
-    if (user.subscription.stripeCustomerId) {
-      stripeCustomer = { id: user.subscription.stripeCustomerId };
-    } else {
-      stripeCustomer = await createCustomer({
-        email: user.email,
-        name: user.displayName,
-        metadata: { userId },
-      });
-      
-      await User.findByIdAndUpdate(userId, {
-        'subscription.stripeCustomerId': stripeCustomer.id,
+    // Older clients send a price identifier, or nothing for the monthly plan
+    const plan = await Plan.findActiveByKey(req.body.plan || LEGACY_PRICE_IDENTIFIERS[priceId] || 'monthly');
+    if (!plan) {
+      return res.status(400).json({
+        success: false,
+        error: 'Unknown plan',
       });
     }
     
-    const subscription = await createSubscription(stripeCustomer.id, priceId, 3, userId);
+    // Usually created in the background at sign-up; created here if that job has not run yet
+    const customerId = await billingService.ensureCustomer(user);
+    
+    const subscription = await createSubscription(customerId, plan.stripePriceId, plan.trialDays, userId);
     
     await User.findByIdAndUpdate(userId, {
       'subscription.stripeSubscriptionId': subscription.id,
       'subscription.status': subscription.status === 'trialing' ? 'free_trial' : 'active',
+      'subscription.source': 'stripe',
+      'subscription.plan': plan.key,
       'subscription.currentPeriodStart': new Date(subscription.current_period_start * 1000),
       'subscription.currentPeriodEnd': new Date(subscription.current_period_end * 1000),
     });
     
     await Logger.logSubscription('subscription_created', userId, {
       subscriptionId: subscription.id,
-      customerId: stripeCustomer.id,
-      priceId,
+      customerId,
+      plan: plan.key,
+      priceId: plan.stripePriceId,
       status: subscription.status,
       trialEnd: subscription.trial_end ? new Date(subscription.trial_end * 1000) : null,
     }, 'success', req);
     
-    res.json({
+    return res.json({
       success: true,
       data: {
         clientSecret: (subscription.latest_invoice as any)?.payment_intent?.client_secret,
@@ -63,6 +79,219 @@ router.post('/create',
   })
 );
 
+// Start a hosted Stripe Checkout for a plan from the catalogue
+router.post('/checkout-session',
+  authenticateToken,
+  validate(schemas.createCheckoutSession),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.userId;
+    const user = req.user!.dbUser;
+    
+    const plan = await Plan.findActiveByKey(req.body.plan);
+    if (!plan) {
+      return res.status(400).json({
+        success: false,
+        error: 'Unknown plan',
+      });
+    }
+    
+    const frontendUrl = process.env.FRONTEND_URL;
+    if (!frontendUrl) {
+      return res.status(500).json({
+        success: false,
+        error: 'Checkout is not configured',
+      });
+    }
+    
+    // Existing Stripe subscribers change plans or payment details in the billing portal
+    if (await billingService.hasLiveSubscription(user)) {
+      return res.status(409).json({
+        success: false,
+        error: 'You already have a subscription, manage it in the billing portal',
+      });
+    }
+    
+    const customerId = await billingService.ensureCustomer(user);
+    
+    // The trial is only offered on the first Stripe subscription
+    const trialPeriodDays = user.subscription.stripeSubscriptionId || plan.trialDays === 0 ? undefined : plan.trialDays;
+    
+    const session = await createCheckoutSession({
+      customerId,
+      priceId: plan.stripePriceId,
+      userId,
+      successUrl: `${frontendUrl}/subscription/success?session_id={CHECKOUT_SESSION_ID}`,
+      cancelUrl: `${frontendUrl}/subscription`,
+      trialPeriodDays,
+      metadata: { plan: plan.key },
+    });
+    
+    await Logger.logSubscription('checkout_session_created', userId, {
+      sessionId: session.id,
+      customerId,
+      plan: plan.key,
+      priceId: plan.stripePriceId,
+      trialPeriodDays,
+    }, 'success', req);
+    
+    return res.json({
+      success: true,
+      data: {
+        sessionId: session.id,
+        url: session.url,
+      },
+    });
+  })
+);
+
+// Switch to another plan, or preview the prorated amount of doing so
+router.post('/change-plan',
+  authenticateToken,
+  validate(schemas.changePlan),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.userId;
+    const user = req.user!.dbUser;
+    const { applyAt = 'now', preview = false, prorationDate } = req.body;
+    
+    if (!user.subscription.stripeSubscriptionId || user.subscription.source !== 'stripe') {
+      return res.status(400).json({
+        success: false,
+        error: 'No active subscription found',
+      });
+    }
+    
+    if (!['active', 'free_trial'].includes(user.subscription.status)) {
+      return res.status(409).json({
+        success: false,
+        error: user.subscription.status === 'past_due'
+          ? 'Update your payment method before changing plan'
+          : 'Subscription cannot be changed in its current state',
+        subscriptionStatus: user.subscription.status,
+      });
+    }
+    
+    const plan = await Plan.findActiveByKey(req.body.plan);
+    if (!plan) {
+      return res.status(400).json({
+        success: false,
+        error: 'Unknown plan',
+      });
+    }
+    const priceId = plan.stripePriceId;
+    
+    const subscription = await getSubscription(user.subscription.stripeSubscriptionId);
+    if (subscription.items.data[0]?.price.id === priceId) {
+      return res.status(400).json({
+        success: false,
+        error: `Already on the ${plan.name} plan`,
+      });
+    }
+    
+    const currentPeriodEnd = new Date(subscription.current_period_end * 1000);
+    
+    if (preview) {
+      // A change at period end is not prorated: the next invoice is simply for the new plan
+      const changePreview = applyAt === 'now'
+        ? await previewPlanChange(subscription, priceId)
+        : null;
+      
+      return res.json({
+        success: true,
+        data: {
+          plan: plan.key,
+          applyAt,
+          effectiveAt: applyAt === 'now' ? new Date() : currentPeriodEnd,
+          preview: changePreview,
+        },
+      });
+    }
+    
+    if (applyAt === 'period_end') {
+      const schedule = await schedulePriceChange(subscription, priceId);
+      
+      await Logger.logSubscription('plan_change_scheduled', userId, {
+        subscriptionId: subscription.id,
+        scheduleId: schedule.id,
+        fromPlan: user.subscription.plan,
+        toPlan: plan.key,
+        effectiveAt: currentPeriodEnd,
+      }, 'success', req);
+      
+      // `plan` is updated by the subscription webhook once the new phase starts
+      return res.json({
+        success: true,
+        data: { plan: plan.key, applyAt, effectiveAt: currentPeriodEnd },
+        message: `Your plan will change to ${plan.name} at the end of the current period`,
+      });
+    }
+    
+    const updated = await changeSubscriptionPrice(subscription, priceId, prorationDate);
+    
+    await User.findByIdAndUpdate(userId, {
+      'subscription.plan': plan.key,
+      'subscription.currentPeriodStart': new Date(updated.current_period_start * 1000),
+      'subscription.currentPeriodEnd': new Date(updated.current_period_end * 1000),
+    });
+    await cache.del(`user:${req.user!.uid}`);
+    
+    await Logger.logSubscription('plan_changed', userId, {
+      subscriptionId: subscription.id,
+      fromPlan: user.subscription.plan,
+      toPlan: plan.key,
+      prorationDate,
+    }, 'success', req);
+    
+    return res.json({
+      success: true,
+      data: {
+        plan: plan.key,
+        applyAt,
+        effectiveAt: new Date(),
+        currentPeriodEnd: new Date(updated.current_period_end * 1000),
+      },
+      message: `Your plan has been changed to ${plan.name}`,
+    });
+  })
+);
+
+// Open the Stripe billing portal to manage payment methods, invoices and cancellation
+router.post('/portal',
+  authenticateToken,
+  validate(schemas.createPortalSession),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.userId;
+    const user = req.user!.dbUser;
+    const { returnPath = '/subscription' } = req.body;
+    
+    const frontendUrl = process.env.FRONTEND_URL;
+    if (!frontendUrl) {
+      return res.status(500).json({
+        success: false,
+        error: 'Billing portal is not configured',
+      });
+    }
+    
+    if (!user.subscription.stripeCustomerId) {
+      return res.status(400).json({
+        success: false,
+        error: 'No billing account found',
+      });
+    }
+    
+    const session = await createPortalSession(user.subscription.stripeCustomerId, `${frontendUrl}${returnPath}`);
+    
+    await Logger.logSubscription('portal_session_created', userId, {
+      customerId: user.subscription.stripeCustomerId,
+      returnPath,
+    }, 'success', req);
+    
+    return res.json({
+      success: true,
+      data: { url: session.url },
+    });
+  })
+);
+
 // Apply promo code
 router.post('/promo-code',
   authenticateToken,
@@ -170,112 +399,119 @@ router.get('/details',
   })
 );
 
+// Preview which subscriptions the lifecycle job would expire (admin only)
+router.get('/lifecycle/dry-run',
+  authenticateToken,
+  adminOnly,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const result = await subscriptionLifecycleService.expireDueSubscriptions({ dryRun: true });
+    
+    const byReason: Record<string, number> = {};
+    result.transitions.forEach(transition => {
+      byReason[transition.reason] = (byReason[transition.reason] || 0) + 1;
+    });
+    
+    res.json({
+      success: true,
+      data: {
+        ...result,
+        summary: {
+          total: result.transitions.length,
+          byReason,
+        },
+      },
+    });
+  })
+);
+
 // Stripe webhook
 router.post('/webhook',
   asyncHandler(async (req: Request, res: Response) => {
     const sig = req.headers['stripe-signature'] as string;
     const event = verifyWebhookSignature(req.body, sig);
     
-    // Handle different event types
-    switch (event.type) {
-      case 'customer.subscription.updated':
-        {
-          const subscription = event.data.object as any;
-          const customer = await getStripe().customers.retrieve(subscription.customer);
-          
-          if (customer && !customer.deleted && customer.metadata?.userId) {
-            await User.findByIdAndUpdate(customer.metadata.userId, {
-              'subscription.status': subscription.status === 'trialing' ? 'free_trial' : 
-                                   subscription.status === 'active' ? 'active' : 
-                                   subscription.status === 'canceled' ? 'canceled' : 'expired',
-              'subscription.currentPeriodStart': new Date(subscription.current_period_start * 1000),
-              'subscription.currentPeriodEnd': new Date(subscription.current_period_end * 1000),
-            });
-
-            await Logger.logSubscription('subscription_updated', customer.metadata.userId, {
-              subscriptionId: subscription.id,
-              status: subscription.status,
-              currentPeriodStart: new Date(subscription.current_period_start * 1000),
-              currentPeriodEnd: new Date(subscription.current_period_end * 1000),
-              cancelAtPeriodEnd: subscription.cancel_at_period_end,
-              source: 'stripe_webhook',
-            });
-          }
-        }
-        break;
-        
-      case 'customer.subscription.deleted':
-        {
-          const subscription = event.data.object as any;
-          const customer = await getStripe().customers.retrieve(subscription.customer);
-          
-          if (customer && !customer.deleted && customer.metadata?.userId) {
-            await User.findByIdAndUpdate(customer.metadata.userId, {
-              'subscription.status': 'expired',
-              'subscription.canceledAt': new Date(),
-            });
+    // Each event id is processed once; failures throw so Stripe retries
+    const { duplicate } = await stripeWebhookService.receive(event);
+    
+    res.json({ received: true, duplicate });
+  })
+);
 
-            await Logger.logSubscription('subscription_deleted', customer.metadata.userId, {
-              subscriptionId: subscription.id,
-              canceledAt: new Date(),
-              source: 'stripe_webhook',
-            });
-          }
-        }
-        break;
-        
-      case 'invoice.payment_succeeded':
-        {
-          const invoice = event.data.object as any;
-          if (invoice.subscription) {
-            const subscription = await getStripe().subscriptions.retrieve(invoice.subscription);
-            const customer = await getStripe().customers.retrieve(subscription.customer as string);
-            
-            if (customer && !customer.deleted && customer.metadata?.userId) {
-              await User.findByIdAndUpdate(customer.metadata.userId, {
-                'subscription.status': 'active',
-                'subscription.currentPeriodStart': new Date(subscription.current_period_start * 1000),
-                'subscription.currentPeriodEnd': new Date(subscription.current_period_end * 1000),
-              });
+// List received webhook events (admin only)
+router.get('/webhook/events',
+  authenticateToken,
+  adminOnly,
+  validateQuery(schemas.webhookEventQuery),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { status, type, userId, limit = 20, page = 1 } = req.query;
+    
+    const query: any = {};
+    if (status) query.status = status;
+    if (type) query.type = type;
+    if (userId) query.userId = userId;
+    
+    const skip = (Number(page) - 1) * Number(limit);
+    const [events, total] = await Promise.all([
+      WebhookEvent.find(query, { payload: 0 })
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(Number(limit)),
+      WebhookEvent.countDocuments(query),
+    ]);
+    
+    res.json({
+      success: true,
+      data: {
+        events,
+        pagination: {
+          total,
+          page: Number(page),
+          limit: Number(limit),
+          totalPages: Math.ceil(total / Number(limit)),
+        },
+      },
+    });
+  })
+);
 
-              await Logger.logPayment('payment_succeeded', customer.metadata.userId, {
-                invoiceId: invoice.id,
-                subscriptionId: subscription.id,
-                amount: invoice.amount_paid,
-                currency: invoice.currency,
-                source: 'stripe_webhook',
-              });
-            }
-          }
-        }
-        break;
-        
-      case 'invoice.payment_failed':
-        {
-          const invoice = event.data.object as any;
-          if (invoice.subscription) {
-            const subscription = await getStripe().subscriptions.retrieve(invoice.subscription);
-            const customer = await getStripe().customers.retrieve(subscription.customer as string);
-            
-            if (customer && !customer.deleted && customer.metadata?.userId) {
-              await Logger.logPayment('payment_failed', customer.metadata.userId, {
-                invoiceId: invoice.id,
-                subscriptionId: subscription.id,
-                amount: invoice.amount_due,
-                currency: invoice.currency,
-                attemptCount: invoice.attempt_count,
-                nextPaymentAttempt: invoice.next_payment_attempt ? new Date(invoice.next_payment_attempt * 1000) : null,
-                source: 'stripe_webhook',
-              }, 'failure');
-              
-              console.log(`Payment failed for user ${customer.metadata.userId}`);
-            }
-          }
-        }
-        break;
+// Process a stored webhook event again (admin only)
+router.post('/webhook/events/:eventId/replay',
+  authenticateToken,
+  adminOnly,
+  validateParams(schemas.webhookEventParams),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { eventId } = req.params;
+    
+    const existing = await WebhookEvent.findOne({ eventId }, { status: 1 });
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        error: 'Webhook event not found',
+      });
+    }
+    
+    const event = await stripeWebhookService.replay(eventId);
+    if (!event) {
+      return res.status(409).json({
+        success: false,
+        error: 'Webhook event is currently being processed',
+      });
     }
     
-    res.json({ received: true });
+    await Logger.logSystem('webhook_event_replayed', {
+      eventId,
+      type: event.type,
+      status: event.status,
+      result: event.result,
+      error: event.error,
+      adminId: req.user!.userId,
+    }, event.status === 'failed' ? 'error' : 'info');
+    
+    return res.json({
+      success: true,
+      data: { event },
+      message: event.status === 'failed' ? 'Replay failed' : 'Webhook event replayed',
+    });
   })
 );
 
@@ -1,9 +1,13 @@
 import { Router, Response } from 'express';
-import { authenticateToken, AuthRequest } from '@/middleware/auth';
+import { authenticateToken, requireEntitlement, AuthRequest } from '@/middleware/auth';
 import { validate, schemas } from '@/middleware/validation';
 import { asyncHandler } from '@/middleware/errorHandler';
 import { User } from '@/models/User';
+import { Progress } from '@/models/Progress';
+import { Workout } from '@/models/Workout';
+import { PersonalRecord } from '@/models/PersonalRecord';
 import { cache } from '@/config/redis';
+import Logger from '@/services/logger';
 
 const router = Router();
 
@@ -46,4 +50,37 @@ router.put('/profile',
   })
 );
 
+// Download the user's profile, progress, workouts and records as JSON
+router.get('/export',
+  authenticateToken,
+  requireEntitlement('data_export'),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.userId;
+
+    const [progress, workouts, records] = await Promise.all([
+      Progress.find({ userId }).sort({ date: 1 }),
+      Workout.find({ userId }).sort({ date: 1 }),
+      PersonalRecord.find({ userId }).sort({ achievedAt: 1 }),
+    ]);
+
+    await Logger.logUserAction('export_data', userId, {
+      progressCount: progress.length,
+      workoutCount: workouts.length,
+      recordCount: records.length,
+    }, req);
+
+    res.setHeader('Content-Disposition', 'attachment; filename=fitness-data-export.json');
+    res.json({
+      success: true,
+      data: {
+        exportedAt: new Date(),
+        user: req.user!.dbUser,
+        progress,
+        workouts,
+        records,
+      },
+    });
+  })
+);
+
 export default router;
@@ -0,0 +1,239 @@
+import { Router, Response } from 'express';
+import { authenticateToken, requireSubscription, getEntitlements, AuthRequest } from '@/middleware/auth';
+import { validate, schemas, validateQuery } from '@/middleware/validation';
+import { asyncHandler } from '@/middleware/errorHandler';
+import { Workout } from '@/models/Workout';
+import { workoutService } from '@/services/workoutService';
+import { exerciseService } from '@/services/exerciseService';
+import { recordService } from '@/services/recordService';
+import { jobQueue } from '@/services/jobQueue';
+import { entitlementService } from '@/services/entitlementService';
+import Logger from '@/services/logger';
+import { getLocalDateKey } from '@/utils/timezone';
+import mongoose from 'mongoose';
+
+const router = Router();
+
+// Get workout history
+router.get('/',
+  authenticateToken,
+  validateQuery(schemas.workoutQuery),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.userId;
+    const { startDate, endDate, limit = 30, page = 1, sortOrder = 'desc' } = req.query;
+
+    const query: any = { userId };
+    if (startDate || endDate) {
+      query.date = {};
+      if (startDate) query.date.$gte = new Date(startDate as string);
+      if (endDate) query.date.$lte = new Date(endDate as string);
+    }
+
+    // Without unlimited history, older sessions are hidden
+    const historyStart = entitlementService.getHistoryStart(await getEntitlements(req));
+    if (historyStart && !(query.date?.$gte > historyStart)) {
+      query.date = { ...query.date, $gte: historyStart };
+    }
+
+    const skip = (Number(page) - 1) * Number(limit);
+    const sortDirection = sortOrder === 'asc' ? 1 : -1;
+
+    const [workouts, total] = await Promise.all([
+      Workout.find(query)
+        .sort({ date: sortDirection })
+        .skip(skip)
+        .limit(Number(limit)),
+      Workout.countDocuments(query),
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        workouts,
+        pagination: {
+          total,
+          page: Number(page),
+          limit: Number(limit),
+          totalPages: Math.ceil(total / Number(limit)),
+        },
+        historyStart,
+      },
+    });
+  })
+);
+
+// Log a workout session
+router.post('/',
+  authenticateToken,
+  requireSubscription,
+  validate(schemas.createWorkout),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.userId;
+
+    const { exercises, unknownIds } = await exerciseService.resolveWorkoutExercises(userId, req.body.exercises);
+    if (unknownIds.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Unknown exercises',
+        exerciseIds: unknownIds,
+      });
+    }
+
+    const workout = new Workout({
+      ...req.body,
+      exercises,
+      userId,
+    });
+
+    await workout.save();
+
+    const timezone = req.user!.dbUser.settings?.timezone;
+    const musclesTrained = await workoutService.syncProgressMuscles(userId, getLocalDateKey(workout.date, timezone), timezone);
+    const records = await recordService.processWorkout(workout);
+
+    // Only improvements on an existing record are worth a push, not first-time baselines
+    const improvedRecords = records.filter(record => record.previousValue !== undefined);
+    if (improvedRecords.length > 0) {
+      await jobQueue.enqueue('notification.personal_records', {
+        userId,
+        recordIds: improvedRecords.map(record => (record._id as mongoose.Types.ObjectId).toString()),
+      });
+    }
+
+    await Logger.logUserAction('create_workout', userId, {
+      workoutId: (workout._id as mongoose.Types.ObjectId).toString(),
+      date: workout.date,
+      exerciseCount: workout.exercises.length,
+      totalVolume: workout.getTotalVolume(),
+      musclesTrained,
+      personalRecords: records.length,
+    }, req);
+
+    return res.status(201).json({
+      success: true,
+      data: { workout, records },
+      message: 'Workout logged successfully',
+    });
+  })
+);
+
+// Get specific workout
+router.get('/:id',
+  authenticateToken,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+
+    const workout = await Workout.findOne({ _id: id, userId });
+    if (!workout) {
+      return res.status(404).json({
+        success: false,
+        error: 'Workout not found',
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: { workout },
+    });
+  })
+);
+
+// Update workout
+router.put('/:id',
+  authenticateToken,
+  requireSubscription,
+  validate(schemas.updateWorkout),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+
+    const previous = await Workout.findOne({ _id: id, userId });
+    if (!previous) {
+      return res.status(404).json({
+        success: false,
+        error: 'Workout not found',
+      });
+    }
+
+    const updates = { ...req.body };
+    if (updates.exercises) {
+      const { exercises, unknownIds } = await exerciseService.resolveWorkoutExercises(userId, updates.exercises);
+      if (unknownIds.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'Unknown exercises',
+          exerciseIds: unknownIds,
+        });
+      }
+      updates.exercises = exercises;
+    }
+
+    const workout = await Workout.findOneAndUpdate(
+      { _id: id, userId },
+      { $set: updates },
+      { new: true, runValidators: true }
+    );
+
+    // Re-sync both days when the workout moved to another date
+    const timezone = req.user!.dbUser.settings?.timezone;
+    const previousDay = getLocalDateKey(previous.date, timezone);
+    const day = getLocalDateKey(workout!.date, timezone);
+    await workoutService.syncProgressMuscles(userId, previousDay, timezone);
+    if (day !== previousDay) {
+      await workoutService.syncProgressMuscles(userId, day, timezone);
+    }
+
+    const records = await recordService.processWorkout(workout!, {
+      date: previous.date,
+      exerciseIds: recordService.getExerciseIds(previous),
+    });
+
+    await Logger.logUserAction('update_workout', userId, {
+      workoutId: id,
+      updatedFields: Object.keys(req.body),
+      date: workout!.date,
+    }, req);
+
+    return res.json({
+      success: true,
+      data: { workout, records },
+      message: 'Workout updated successfully',
+    });
+  })
+);
+
+// Delete workout
+router.delete('/:id',
+  authenticateToken,
+  requireSubscription,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+
+    const workout = await Workout.findOneAndDelete({ _id: id, userId });
+    if (!workout) {
+      return res.status(404).json({
+        success: false,
+        error: 'Workout not found',
+      });
+    }
+
+    const timezone = req.user!.dbUser.settings?.timezone;
+    await workoutService.syncProgressMuscles(userId, getLocalDateKey(workout.date, timezone), timezone);
+    await recordService.removeWorkoutRecords(workout);
+
+    await Logger.logUserAction('delete_workout', userId, {
+      workoutId: id,
+      date: workout.date,
+      exerciseCount: workout.exercises.length,
+    }, req);
+
+    return res.json({
+      success: true,
+      message: 'Workout deleted successfully',
+    });
+  })
+);
+
+export default router;
@@ -9,21 +9,35 @@ import dotenv from 'dotenv';
 import { connectDB } from '@/config/database';
 import { connectRedis } from '@/config/redis';
 import { initializeFirebase } from '@/config/firebase';
+import { initializeEmail } from '@/config/email';
 import { initializeStripe } from '@/config/stripe';
 import { initializeStorage } from '@/config/storage';
 import { errorHandler } from '@/middleware/errorHandler';
 import { notFound } from '@/middleware/notFound';
 import '@/models/Log'; // Ensure Log model is registered
+import '@/services/jobHandlers'; // Handlers run in-process when Redis is unavailable
 
 // Import routes
 import authRoutes from '@/routes/auth';
 import userRoutes from '@/routes/user';
 import progressRoutes from '@/routes/progress';
+import workoutRoutes from '@/routes/workouts';
+import exerciseRoutes from '@/routes/exercises';
+import recordRoutes from '@/routes/records';
 import subscriptionRoutes from '@/routes/subscription';
+import planRoutes from '@/routes/plans';
 import notificationRoutes from '@/routes/notification';
+import campaignRoutes from '@/routes/campaigns';
+import notificationTemplateRoutes from '@/routes/notificationTemplates';
 import promoCodeRoutes from '@/routes/promoCode';
 import logsRoutes from '@/routes/logs';
+import jobRoutes from '@/routes/jobs';
 import { notificationService } from '@/services/notificationService';
+import { exerciseService } from '@/services/exerciseService';
+import { planService } from '@/services/planService';
+import { deviceService } from '@/services/deviceService';
+import { subscriptionLifecycleService } from '@/services/subscriptionLifecycleService';
+import { jobScheduler } from '@/services/jobScheduler';
 import requestLogger from '@/middleware/requestLogger';
 
 // Load environment variables
@@ -64,10 +78,17 @@ app.get('/health', (_req, res) => {
 app.use('/api/auth', authRoutes);
 app.use('/api/users', userRoutes);
 app.use('/api/progress', progressRoutes);
+app.use('/api/workouts', workoutRoutes);
+app.use('/api/exercises', exerciseRoutes);
+app.use('/api/records', recordRoutes);
+app.use('/api/subscriptions/plans', planRoutes);
 app.use('/api/subscriptions', subscriptionRoutes);
+app.use('/api/notifications/campaigns', campaignRoutes);
+app.use('/api/notifications/templates', notificationTemplateRoutes);
 app.use('/api/notifications', notificationRoutes);
 app.use('/api/promo-codes', promoCodeRoutes);
 app.use('/api/logs', logsRoutes);
+app.use('/api/jobs', jobRoutes);
 
 // Error handling middleware
 app.use(notFound);
@@ -80,14 +101,26 @@ const startServer = async () => {
     await connectDB();
     await connectRedis();
     
+    // Seed reference data
+    await exerciseService.seedDefaultExercises();
+    await deviceService.migrateLegacyTokens();
+    
     // Initialize services
     initializeFirebase();
+    initializeEmail();
     initializeStripe();
     initializeStorage();
     
+    // Import plans configured before the plan catalogue existed
+    await planService.seedPlansFromEnvironment();
+    
     // Start notification services
     notificationService.startReminderScheduler();
     notificationService.scheduleTrialExpiryReminders();
+    notificationService.scheduleCampaignDispatcher();
+    
+    // Start subscription lifecycle job
+    subscriptionLifecycleService.scheduleLifecycleJob();
     
     app.listen(PORT, () => {
       console.log(`🚀 Server running on port ${PORT}`);
@@ -116,6 +149,7 @@ process.on('uncaughtException', (err: Error) => {
 // Graceful shutdown
 process.on('SIGTERM', () => {
   console.log('SIGTERM received. Shutting down gracefully...');
+  jobScheduler.stopAll();
   process.exit(0);
 });
 
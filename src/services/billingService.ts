@@ -0,0 +1,71 @@
+import mongoose from 'mongoose';
+import { User, IUser } from '@/models/User';
+import { cache } from '@/config/redis';
+import { createCustomer, getStripe } from '@/config/stripe';
+
+const LIVE_SUBSCRIPTION_STATUSES = ['trialing', 'active', 'past_due'];
+
+export class BillingService {
+  private static instance: BillingService;
+
+  public static getInstance(): BillingService {
+    if (!BillingService.instance) {
+      BillingService.instance = new BillingService();
+    }
+    return BillingService.instance;
+  }
+
+  // Return the user's Stripe customer id, creating the customer when there is none yet.
+  // Safe to call concurrently (e.g. from a request and the background job): only one customer is kept.
+  public async ensureCustomer(user: Pick<IUser, 'firebaseUid' | 'email' | 'displayName' | 'subscription'> & { _id: unknown }): Promise<string> {
+    if (user.subscription?.stripeCustomerId) {
+      return user.subscription.stripeCustomerId;
+    }
+
+    const userId = (user._id as mongoose.Types.ObjectId).toString();
+    const customer = await createCustomer({
+      email: user.email,
+      name: user.displayName,
+      metadata: { userId },
+    });
+
+    const claimed = await User.findOneAndUpdate(
+      { _id: userId, 'subscription.stripeCustomerId': { $exists: false } },
+      { $set: { 'subscription.stripeCustomerId': customer.id } },
+      { new: true }
+    );
+
+    if (claimed) {
+      await cache.del(`user:${user.firebaseUid}`);
+      return customer.id;
+    }
+
+    // Another request created the customer first; keep theirs and remove the duplicate
+    const current = await User.findById(userId, { 'subscription.stripeCustomerId': 1 });
+    await getStripe().customers.del(customer.id).catch(error => {
+      console.error(`❌ Failed to delete duplicate Stripe customer ${customer.id}:`, error);
+    });
+
+    if (!current?.subscription.stripeCustomerId) {
+      throw new Error(`User ${userId} not found`);
+    }
+    return current.subscription.stripeCustomerId;
+  }
+
+  // Whether the user's Stripe subscription is still billing or trialing, asked of Stripe rather than
+  // the local status, which may be a promo grant or lag behind webhooks
+  public async hasLiveSubscription(user: Pick<IUser, 'subscription'>): Promise<boolean> {
+    const subscriptionId = user.subscription?.stripeSubscriptionId;
+    if (!subscriptionId) return false;
+
+    try {
+      const subscription = await getStripe().subscriptions.retrieve(subscriptionId);
+      return LIVE_SUBSCRIPTION_STATUSES.includes(subscription.status);
+    } catch (error) {
+      if ((error as any)?.code === 'resource_missing') return false;
+      throw error;
+    }
+  }
+}
+
+export const billingService = BillingService.getInstance();
@@ -0,0 +1,147 @@
+import mongoose from 'mongoose';
+import { User, getDeviceTokens } from '@/models/User';
+import { Progress } from '@/models/Progress';
+import { Campaign, ICampaign, ICampaignSegment } from '@/models/Campaign';
+import { sendMulticastNotification } from '@/config/firebase';
+import Logger from '@/services/logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class CampaignService {
+  private static instance: CampaignService;
+
+  public static getInstance(): CampaignService {
+    if (!CampaignService.instance) {
+      CampaignService.instance = new CampaignService();
+    }
+    return CampaignService.instance;
+  }
+
+  public async buildAudienceQuery(segment: ICampaignSegment, now: Date = new Date()): Promise<Record<string, any>> {
+    const query: any = { isActive: true };
+
+    // An explicit empty list selects nobody rather than dropping the filter
+    if (segment.userIds) {
+      query._id = { $in: segment.userIds };
+    }
+    if (segment.subscriptionStatus && segment.subscriptionStatus.length > 0) {
+      query['subscription.status'] = { $in: segment.subscriptionStatus };
+    }
+    if (segment.lastActiveWithinDays !== undefined || segment.inactiveForDays !== undefined) {
+      query.lastActiveAt = {};
+      if (segment.lastActiveWithinDays !== undefined) {
+        query.lastActiveAt.$gte = new Date(now.getTime() - segment.lastActiveWithinDays * DAY_MS);
+      }
+      if (segment.inactiveForDays !== undefined) {
+        query.lastActiveAt.$lt = new Date(now.getTime() - segment.inactiveForDays * DAY_MS);
+      }
+    }
+    if (segment.trialEndingWithinDays !== undefined) {
+      query['subscription.status'] = 'free_trial';
+      query['subscription.trialEndsAt'] = {
+        $gte: now,
+        $lte: new Date(now.getTime() + segment.trialEndingWithinDays * DAY_MS),
+      };
+    }
+    if (segment.noProgressInDays !== undefined) {
+      const since = new Date(now.getTime() - segment.noProgressInDays * DAY_MS);
+      const recentlyActive = await Progress.distinct('userId', { date: { $gte: since } });
+      query._id = { ...query._id, $nin: recentlyActive };
+    }
+
+    return query;
+  }
+
+  public async previewAudience(segment: ICampaignSegment): Promise<{ users: number; reachableUsers: number }> {
+    const query = await this.buildAudienceQuery(segment);
+
+    const [users, reachableUsers] = await Promise.all([
+      User.countDocuments(query),
+      User.countDocuments({
+        ...query,
+        'devices.0': { $exists: true },
+        'settings.notificationsEnabled': { $ne: false },
+        'settings.notificationCategories.marketing': { $ne: false },
+      }),
+    ]);
+
+    return { users, reachableUsers };
+  }
+
+  // Claim and send every scheduled campaign whose time has come
+  public async dispatchDueCampaigns(): Promise<void> {
+    try {
+      let campaign: ICampaign | null;
+      do {
+        // Atomic claim so a campaign is only sent once
+        campaign = await Campaign.findOneAndUpdate(
+          { status: 'scheduled', scheduledAt: { $lte: new Date() } },
+          { $set: { status: 'sending' } },
+          { new: true, sort: { scheduledAt: 1 } }
+        );
+
+        if (campaign) {
+          await this.sendCampaign(campaign);
+        }
+      } while (campaign);
+    } catch (error) {
+      console.error('❌ Error dispatching campaigns:', error);
+    }
+  }
+
+  private async sendCampaign(campaign: ICampaign): Promise<void> {
+    const campaignId = (campaign._id as mongoose.Types.ObjectId).toString();
+
+    try {
+      const query = await this.buildAudienceQuery(campaign.segment);
+      const users = await User.find({ ...query, 'devices.0': { $exists: true } }, { 'devices.token': 1 });
+      const tokens = users.flatMap(getDeviceTokens);
+
+      campaign.stats.targetedUsers = users.length;
+      campaign.stats.targetedTokens = tokens.length;
+
+      if (tokens.length > 0) {
+        const response = await sendMulticastNotification(
+          tokens,
+          campaign.title,
+          campaign.body,
+          {
+            ...campaign.data,
+            type: 'campaign',
+            campaignId,
+          },
+          users.map(user => (user._id as mongoose.Types.ObjectId).toString())
+        );
+
+        campaign.stats.successCount = response.successCount;
+        campaign.stats.failureCount = response.failureCount;
+      }
+
+      campaign.status = 'sent';
+      campaign.sentAt = new Date();
+      await campaign.save();
+
+      await Logger.logNotification('campaign_sent', campaign.createdBy.toString(), {
+        campaignId,
+        name: campaign.name,
+        stats: campaign.stats,
+      }, 'success');
+
+      console.log(`📣 Campaign "${campaign.name}" sent to ${users.length} users`);
+    } catch (error) {
+      campaign.status = 'failed';
+      campaign.errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      await campaign.save();
+
+      await Logger.logNotification('campaign_failed', campaign.createdBy.toString(), {
+        campaignId,
+        name: campaign.name,
+        error: campaign.errorMessage,
+      }, 'failure');
+
+      console.error(`❌ Campaign "${campaign.name}" failed:`, error);
+    }
+  }
+}
+
+export const campaignService = CampaignService.getInstance();
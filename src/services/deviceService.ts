@@ -0,0 +1,176 @@
+import mongoose from 'mongoose';
+import { User, IUser, DevicePlatform, DEVICE_PLATFORMS } from '@/models/User';
+import { cache } from '@/config/redis';
+import Logger from '@/services/logger';
+import { DeliveryResult } from '@/services/notificationHistory';
+
+const MAX_DEVICES_PER_USER = 10;
+
+// FCM error codes meaning the token will never be deliverable again
+const INVALID_TOKEN_ERRORS = [
+  'messaging/registration-token-not-registered',
+  'messaging/invalid-registration-token',
+  'messaging/invalid-argument',
+];
+
+export interface DeviceInfo {
+  token: string;
+  platform?: DevicePlatform;
+  appVersion?: string;
+}
+
+export class DeviceService {
+  private static instance: DeviceService;
+
+  public static getInstance(): DeviceService {
+    if (!DeviceService.instance) {
+      DeviceService.instance = new DeviceService();
+    }
+    return DeviceService.instance;
+  }
+
+  // Add or refresh a device. A token belongs to one install, so it is detached from any other account.
+  public async registerDevice(userId: string, device: DeviceInfo, replacesToken?: string): Promise<IUser | null> {
+    const now = new Date();
+    // Header-supplied platforms are not validated upstream
+    const platform = DEVICE_PLATFORMS.includes(device.platform as DevicePlatform) ? device.platform : undefined;
+
+    await User.updateMany(
+      { _id: { $ne: userId }, 'devices.token': device.token },
+      { $pull: { devices: { token: device.token } } }
+    );
+
+    if (replacesToken && replacesToken !== device.token) {
+      await User.updateOne({ _id: userId }, { $pull: { devices: { token: replacesToken } } });
+    }
+
+    const refreshed = await User.findOneAndUpdate(
+      { _id: userId, 'devices.token': device.token },
+      {
+        $set: {
+          'devices.$.lastSeenAt': now,
+          ...(platform && { 'devices.$.platform': platform }),
+          ...(device.appVersion && { 'devices.$.appVersion': device.appVersion }),
+        },
+      },
+      { new: true }
+    );
+    if (refreshed) return refreshed;
+
+    // Keep the most recently seen devices when the limit is reached
+    const added = await User.findOneAndUpdate(
+      { _id: userId, 'devices.token': { $ne: device.token } },
+      {
+        $push: {
+          devices: {
+            $each: [{
+              token: device.token,
+              platform: platform || 'unknown',
+              appVersion: device.appVersion,
+              lastSeenAt: now,
+              registeredAt: now,
+            }],
+            $sort: { lastSeenAt: -1 },
+            $slice: MAX_DEVICES_PER_USER,
+          },
+        },
+      },
+      { new: true }
+    );
+
+    return added || User.findById(userId);
+  }
+
+  public async removeDevice(userId: string, token: string): Promise<void> {
+    await User.updateOne({ _id: userId }, { $pull: { devices: { token } } });
+  }
+
+  // Remove tokens that FCM reported as dead. results[i] is the outcome for tokens[i];
+  // pruning never throws so sending is not affected.
+  public async pruneInvalidTokens(tokens: string[], results: DeliveryResult[]): Promise<number> {
+    try {
+      const errorByToken = new Map<string, string>();
+      tokens.forEach((token, index) => {
+        const errorCode = results[index]?.errorCode;
+        if (errorCode && INVALID_TOKEN_ERRORS.includes(errorCode)) {
+          errorByToken.set(token, errorCode);
+        }
+      });
+
+      if (errorByToken.size === 0) return 0;
+
+      const invalidTokens = Array.from(errorByToken.keys());
+      const owners = await User.find(
+        { 'devices.token': { $in: invalidTokens } },
+        { firebaseUid: 1, devices: 1 }
+      ).lean();
+
+      if (owners.length === 0) return 0;
+
+      await User.updateMany(
+        { _id: { $in: owners.map(owner => owner._id) } },
+        { $pull: { devices: { token: { $in: invalidTokens } } } }
+      );
+
+      let removed = 0;
+      for (const owner of owners) {
+        const ownerTokens = owner.devices.filter(device => errorByToken.has(device.token));
+        removed += ownerTokens.length;
+
+        // Cached user documents still carry the removed devices
+        await cache.del(`user:${owner.firebaseUid}`);
+
+        await Logger.logNotification('invalid_tokens_pruned', (owner._id as mongoose.Types.ObjectId).toString(), {
+          removedCount: ownerTokens.length,
+          devices: ownerTokens.map(device => ({
+            platform: device.platform,
+            appVersion: device.appVersion,
+            errorCode: errorByToken.get(device.token),
+          })),
+        }, 'success');
+      }
+
+      console.log(`🧹 Pruned ${removed} invalid FCM tokens from ${owners.length} users`);
+      return removed;
+    } catch (error) {
+      console.error('❌ Failed to prune invalid FCM tokens:', error);
+      return 0;
+    }
+  }
+
+  // One-off conversion of the legacy `fcmTokens` string array into device entries
+  public async migrateLegacyTokens(): Promise<void> {
+    try {
+      const legacyUsers = await User.collection
+        .find({ fcmTokens: { $exists: true } }, { projection: { fcmTokens: 1, devices: 1 } })
+        .toArray();
+
+      if (legacyUsers.length === 0) return;
+
+      const now = new Date();
+      await User.collection.bulkWrite(legacyUsers.map(user => {
+        const devices = user.devices || [];
+        const known = new Set<string>(devices.map((device: { token: string }) => device.token));
+        const legacyDevices = (user.fcmTokens as string[] || [])
+          .filter(token => !known.has(token))
+          .map(token => ({ token, platform: 'unknown', lastSeenAt: now, registeredAt: now }));
+
+        return {
+          updateOne: {
+            filter: { _id: user._id },
+            update: {
+              $set: { devices: [...devices, ...legacyDevices].slice(-MAX_DEVICES_PER_USER) },
+              $unset: { fcmTokens: '' },
+            },
+          },
+        };
+      }));
+
+      console.log(`📱 Migrated FCM tokens of ${legacyUsers.length} users to the device registry`);
+    } catch (error) {
+      console.error('❌ Failed to migrate legacy FCM tokens:', error);
+    }
+  }
+}
+
+export const deviceService = DeviceService.getInstance();
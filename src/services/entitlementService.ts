@@ -0,0 +1,46 @@
+import { IUser } from '@/models/User';
+import { ENTITLEMENTS, Entitlement, TRIAL_ENTITLEMENTS, FREE_HISTORY_DAYS } from '@/config/entitlements';
+import { planService } from '@/services/planService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class EntitlementService {
+  private static instance: EntitlementService;
+
+  public static getInstance(): EntitlementService {
+    if (!EntitlementService.instance) {
+      EntitlementService.instance = new EntitlementService();
+    }
+    return EntitlementService.instance;
+  }
+
+  // Features the user can use right now, from whatever grants their current access
+  public async resolve(user: IUser): Promise<Entitlement[]> {
+    if (!user.isSubscriptionActive()) {
+      return [];
+    }
+
+    const { status, source, plan, promoEntitlements } = user.subscription;
+
+    // The app's own trial; a Stripe trial is on a plan and grants that plan's features
+    if (status === 'free_trial' && source !== 'stripe') {
+      return TRIAL_ENTITLEMENTS;
+    }
+
+    if (source === 'promo') {
+      return promoEntitlements ?? [...ENTITLEMENTS];
+    }
+
+    // Paid access predating the plan catalogue keeps every feature
+    const planEntitlements = source === 'stripe' ? await planService.getPlanEntitlements(plan) : null;
+    return planEntitlements ?? [...ENTITLEMENTS];
+  }
+
+  // Earliest date visible in history lists, null when history is unlimited
+  public getHistoryStart(entitlements: Entitlement[]): Date | null {
+    if (entitlements.includes('unlimited_history')) return null;
+    return new Date(Date.now() - FREE_HISTORY_DAYS * DAY_MS);
+  }
+}
+
+export const entitlementService = EntitlementService.getInstance();
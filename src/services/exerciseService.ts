@@ -0,0 +1,64 @@
+import { Exercise, MuscleGroup } from '@/models/Exercise';
+import { IWorkoutExercise } from '@/models/Workout';
+import { DEFAULT_EXERCISES } from '@/config/exercises';
+
+export interface WorkoutExerciseInput {
+  exerciseId?: string;
+  name?: string;
+  muscleGroups?: MuscleGroup[];
+  sets: IWorkoutExercise['sets'];
+  notes?: string;
+}
+
+export class ExerciseService {
+  private static instance: ExerciseService;
+
+  public static getInstance(): ExerciseService {
+    if (!ExerciseService.instance) {
+      ExerciseService.instance = new ExerciseService();
+    }
+    return ExerciseService.instance;
+  }
+
+  // Insert missing catalogue exercises without overwriting admin edits
+  public async seedDefaultExercises(): Promise<void> {
+    try {
+      const result = await Exercise.bulkWrite(DEFAULT_EXERCISES.map(exercise => ({
+        updateOne: {
+          filter: { name: exercise.name, createdBy: null },
+          update: { $setOnInsert: { ...exercise, isCustom: false, isActive: true } },
+          upsert: true,
+        },
+      })));
+
+      console.log(`🏋️ Exercise catalogue ready (${result.upsertedCount} new exercises seeded)`);
+    } catch (error) {
+      console.error('❌ Failed to seed exercise catalogue:', error);
+    }
+  }
+
+  // Fill name and muscle groups from the catalogue for entries that reference an exercise.
+  // Returns the ids that are unknown or not visible to the user instead of throwing.
+  public async resolveWorkoutExercises(
+    userId: string,
+    entries: WorkoutExerciseInput[]
+  ): Promise<{ exercises: IWorkoutExercise[]; unknownIds: string[] }> {
+    const ids = Array.from(new Set(entries.filter(e => e.exerciseId).map(e => e.exerciseId!)));
+    const catalogue = ids.length > 0 ? await Exercise.findVisibleToUser(ids, userId) : [];
+    const byId = new Map(catalogue.map(exercise => [exercise.id as string, exercise]));
+
+    const unknownIds = ids.filter(id => !byId.has(id));
+    const exercises = entries.map(entry => {
+      const exercise = entry.exerciseId ? byId.get(entry.exerciseId) : undefined;
+      return {
+        ...entry,
+        name: entry.name || exercise?.name || '',
+        muscleGroups: entry.muscleGroups || exercise?.primaryMuscles || [],
+      } as IWorkoutExercise;
+    });
+
+    return { exercises, unknownIds };
+  }
+}
+
+export const exerciseService = ExerciseService.getInstance();
@@ -0,0 +1,50 @@
+import { User, getDeviceTokens } from '@/models/User';
+import { Progress } from '@/models/Progress';
+import { PersonalRecord } from '@/models/PersonalRecord';
+import { processUploadedImage, deleteImage, deleteImageByKey } from '@/config/storage';
+import { jobQueue } from '@/services/jobQueue';
+import { notificationService } from '@/services/notificationService';
+import { billingService } from '@/services/billingService';
+
+// Handlers for every queued job type. Imported by the worker, and by the API so work
+// can still run in-process when Redis is unavailable.
+
+jobQueue.registerHandler('progress.process_photo', async ({ progressId, userId, photoType, uploadKey, date }) => {
+  const imageUrl = await processUploadedImage(uploadKey, { userId, type: photoType, date });
+
+  const result = await Progress.updateOne(
+    { _id: progressId, userId },
+    { $set: { [`photos.${photoType}`]: imageUrl } }
+  );
+
+  // The entry was deleted while the photo was processing
+  if (result.matchedCount === 0) {
+    await deleteImage(imageUrl);
+  }
+
+  await deleteImageByKey(uploadKey);
+});
+
+jobQueue.registerHandler('notification.streak_milestone', async ({ userId, streak }) => {
+  const user = await User.findById(userId);
+  if (!user || !user.isActive) return;
+
+  await notificationService.sendMotivationalMessage(userId, getDeviceTokens(user), streak, user.settings?.locale);
+});
+
+jobQueue.registerHandler('notification.personal_records', async ({ userId, recordIds }) => {
+  const [user, records] = await Promise.all([
+    User.findById(userId),
+    PersonalRecord.find({ _id: { $in: recordIds }, userId }),
+  ]);
+  if (!user || !user.isActive || records.length === 0) return;
+
+  await notificationService.sendPersonalRecordNotification(userId, getDeviceTokens(user), records, user.settings?.locale);
+});
+
+jobQueue.registerHandler('stripe.create_customer', async ({ userId }) => {
+  const user = await User.findById(userId);
+  if (!user || user.subscription.stripeCustomerId) return;
+
+  await billingService.ensureCustomer(user);
+});
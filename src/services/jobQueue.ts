@@ -0,0 +1,346 @@
+import crypto from 'crypto';
+import { RedisClientType } from 'redis';
+import { getRedisClient } from '@/config/redis';
+import { ProgressPhotoType } from '@/config/storage';
+import Logger from '@/services/logger';
+
+// Payload of every job type; handlers receive ids and reload state so retries see fresh data
+export interface JobPayloads {
+  'progress.process_photo': { progressId: string; userId: string; photoType: ProgressPhotoType; uploadKey: string; date?: string };
+  'notification.streak_milestone': { userId: string; streak: number };
+  'notification.personal_records': { userId: string; recordIds: string[] };
+  'stripe.create_customer': { userId: string };
+}
+
+export type JobType = keyof JobPayloads;
+
+export interface QueuedJob<T extends JobType = JobType> {
+  id: string;
+  type: T;
+  payload: JobPayloads[T];
+  attempts: number;
+  maxAttempts: number;
+  createdAt: string;
+  lastError?: string;
+  failedAt?: string;
+}
+
+export interface EnqueueOptions {
+  delayMs?: number;
+  maxAttempts?: number;
+}
+
+export interface QueueOverview {
+  counts: { ready: number; delayed: number; processing: number; deadLetters: number };
+  ready: QueuedJob[]; // Next jobs to be picked up
+  delayed: (QueuedJob & { runAt: string })[]; // Retries and delayed jobs, soonest first
+  deadLetters: QueuedJob[]; // Most recent first
+}
+
+export type JobHandler<T extends JobType> = (payload: JobPayloads[T], job: QueuedJob<T>) => Promise<void>;
+
+const READY_KEY = 'job-queue:ready';
+const DELAYED_KEY = 'job-queue:delayed'; // Sorted set scored by the time the job becomes due
+const PROCESSING_KEY = 'job-queue:processing'; // Jobs taken by a worker and not yet acknowledged
+const LEASES_KEY = 'job-queue:leases'; // Sorted set of processing job ids scored by their lease deadline
+const DEAD_LETTER_KEY = 'job-queue:dead';
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const BACKOFF_BASE_MS = 5000;
+const BACKOFF_MAX_MS = 60 * 60 * 1000;
+const DEAD_LETTER_LIMIT = 1000;
+const POLL_TIMEOUT_SECONDS = 1;
+const PROMOTE_BATCH_SIZE = 100;
+const JOB_LEASE_MS = 15 * 60 * 1000; // A job still processing after this is assumed lost with its worker
+const REAP_INTERVAL_MS = 60 * 1000;
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+export class JobQueue {
+  private static instance: JobQueue;
+  private handlers: Map<JobType, JobHandler<any>> = new Map();
+  private blockingClient: RedisClientType | null = null;
+  private polling = false;
+  private pollLoop: Promise<void> | null = null;
+  private active: Set<Promise<void>> = new Set();
+  private concurrency = 1;
+  private lastReapAt = 0;
+
+  public static getInstance(): JobQueue {
+    if (!JobQueue.instance) {
+      JobQueue.instance = new JobQueue();
+    }
+    return JobQueue.instance;
+  }
+
+  public registerHandler<T extends JobType>(type: T, handler: JobHandler<T>): void {
+    this.handlers.set(type, handler);
+  }
+
+  public async enqueue<T extends JobType>(type: T, payload: JobPayloads[T], options: EnqueueOptions = {}): Promise<string> {
+    const job: QueuedJob<T> = {
+      id: crypto.randomUUID(),
+      type,
+      payload,
+      attempts: 0,
+      maxAttempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      createdAt: new Date().toISOString(),
+    };
+
+    const client = getRedisClient();
+    if (client) {
+      try {
+        if (options.delayMs) {
+          await client.zAdd(DELAYED_KEY, { score: Date.now() + options.delayMs, value: JSON.stringify(job) });
+        } else {
+          await client.lPush(READY_KEY, JSON.stringify(job));
+        }
+        return job.id;
+      } catch (error) {
+        console.error(`❌ Failed to enqueue ${type}, running it in-process:`, error);
+      }
+    }
+
+    // Without Redis the work still happens, just in this process and without retries
+    setImmediate(() => {
+      this.runHandler(job).catch(error => {
+        console.error(`❌ In-process job ${type} failed:`, error);
+      });
+    });
+    return job.id;
+  }
+
+  // Consume jobs until stopWorker is called. Uses its own connection because BLMOVE blocks it.
+  public async startWorker(concurrency: number = parseInt(process.env.JOB_WORKER_CONCURRENCY || '4')): Promise<void> {
+    const client = getRedisClient();
+    if (!client) {
+      throw new Error('Redis is required to run the job worker');
+    }
+
+    this.blockingClient = client.duplicate();
+    this.blockingClient.on('error', error => {
+      console.error('❌ Job worker Redis error:', error);
+    });
+    await this.blockingClient.connect();
+
+    this.concurrency = Math.max(1, concurrency);
+    this.polling = true;
+    this.pollLoop = this.poll();
+    console.log(`👷 Job worker started (concurrency ${this.concurrency})`);
+  }
+
+  // Stop taking new jobs and wait for the ones in progress
+  public async stopWorker(): Promise<void> {
+    this.polling = false;
+    await this.pollLoop;
+    await Promise.all(this.active);
+
+    if (this.blockingClient?.isOpen) {
+      await this.blockingClient.quit();
+    }
+    this.blockingClient = null;
+    console.log('🛑 Job worker stopped');
+  }
+
+  public async getCounts(): Promise<QueueOverview['counts'] | null> {
+    const client = getRedisClient();
+    if (!client) return null;
+
+    const [ready, delayed, processing, deadLetters] = await Promise.all([
+      client.lLen(READY_KEY),
+      client.zCard(DELAYED_KEY),
+      client.lLen(PROCESSING_KEY),
+      client.lLen(DEAD_LETTER_KEY),
+    ]);
+    return { ready, delayed, processing, deadLetters };
+  }
+
+  public async getOverview(limit: number = 20): Promise<QueueOverview | null> {
+    const client = getRedisClient();
+    if (!client) return null;
+
+    const [counts, ready, delayed, deadLetters] = await Promise.all([
+      this.getCounts(),
+      client.lRange(READY_KEY, -limit, -1), // Workers pop from the right
+      client.zRangeWithScores(DELAYED_KEY, 0, limit - 1),
+      client.lRange(DEAD_LETTER_KEY, 0, limit - 1),
+    ]);
+
+    return {
+      counts: counts!,
+      ready: ready.reverse().map(entry => JSON.parse(entry)),
+      delayed: delayed.map(entry => ({ ...JSON.parse(entry.value), runAt: new Date(entry.score).toISOString() })),
+      deadLetters: deadLetters.map(entry => JSON.parse(entry)),
+    };
+  }
+
+  private async poll(): Promise<void> {
+    while (this.polling) {
+      try {
+        await this.promoteDueJobs();
+
+        if (Date.now() - this.lastReapAt >= REAP_INTERVAL_MS) {
+          this.lastReapAt = Date.now();
+          await this.reapStaleJobs();
+        }
+
+        if (this.active.size >= this.concurrency) {
+          await Promise.race(this.active);
+          continue;
+        }
+
+        if (!this.blockingClient?.isReady) {
+          await sleep(POLL_TIMEOUT_SECONDS * 1000);
+          continue;
+        }
+
+        // The job stays on the processing list until it is acknowledged, so a crash cannot lose it
+        const entry = await this.blockingClient.blMove(READY_KEY, PROCESSING_KEY, 'RIGHT', 'LEFT', POLL_TIMEOUT_SECONDS);
+        if (!entry) continue;
+
+        const task: Promise<void> = this.process(entry).finally(() => {
+          this.active.delete(task);
+        });
+        this.active.add(task);
+      } catch (error) {
+        console.error('❌ Job worker poll failed:', error);
+        await sleep(POLL_TIMEOUT_SECONDS * 1000);
+      }
+    }
+  }
+
+  // Move delayed jobs that are due onto the ready list. ZREM decides which worker moves each one.
+  private async promoteDueJobs(): Promise<void> {
+    const client = getRedisClient();
+    if (!client) return;
+
+    const due = await client.zRangeByScore(DELAYED_KEY, 0, Date.now(), {
+      LIMIT: { offset: 0, count: PROMOTE_BATCH_SIZE },
+    });
+
+    for (const entry of due) {
+      if (await client.zRem(DELAYED_KEY, entry) === 1) {
+        await client.lPush(READY_KEY, entry);
+      }
+    }
+  }
+
+  // Move processing jobs whose lease expired back to the ready list. LREM decides which worker moves each one.
+  private async reapStaleJobs(): Promise<void> {
+    const client = getRedisClient();
+    if (!client) return;
+
+    const now = Date.now();
+    const entries = await client.lRange(PROCESSING_KEY, 0, -1);
+
+    for (const entry of entries) {
+      let job: QueuedJob;
+      try {
+        job = JSON.parse(entry);
+      } catch {
+        await client.lRem(PROCESSING_KEY, 1, entry);
+        console.error('❌ Dropped unreadable job from the processing list:', entry);
+        continue;
+      }
+
+      const leaseEndsAt = await client.zScore(LEASES_KEY, job.id);
+      if (leaseEndsAt === null) {
+        // Taken but not leased yet, or its worker died in between: start the lease now
+        await client.zAdd(LEASES_KEY, { score: now + JOB_LEASE_MS, value: job.id }, { NX: true });
+        continue;
+      }
+      if (leaseEndsAt > now) continue;
+
+      if (await client.lRem(PROCESSING_KEY, 1, entry) === 0) continue;
+      await client.zRem(LEASES_KEY, job.id);
+
+      // Counted as an attempt, so a job that keeps taking its worker down ends up in dead letters
+      job.attempts += 1;
+      job.lastError = 'Lease expired before the job finished';
+      console.warn(`⚠️ Job ${job.type} (${job.id}) lease expired, returning it to the queue`);
+
+      if (job.attempts >= job.maxAttempts) {
+        await this.deadLetter(job);
+      } else {
+        await client.lPush(READY_KEY, JSON.stringify(job));
+      }
+    }
+
+    // Leases left behind by jobs acknowledged while this pass ran
+    await client.zRemRangeByScore(LEASES_KEY, 0, now - JOB_LEASE_MS);
+  }
+
+  private async process(entry: string): Promise<void> {
+    try {
+      const job: QueuedJob = JSON.parse(entry);
+      await getRedisClient()?.zAdd(LEASES_KEY, { score: Date.now() + JOB_LEASE_MS, value: job.id });
+
+      try {
+        await this.runHandler(job);
+      } catch (error) {
+        job.attempts += 1;
+        job.lastError = error instanceof Error ? error.message : 'Unknown error';
+
+        if (job.attempts >= job.maxAttempts) {
+          await this.deadLetter(job);
+        } else {
+          const delay = Math.min(BACKOFF_BASE_MS * Math.pow(2, job.attempts - 1), BACKOFF_MAX_MS);
+          console.warn(`⚠️ Job ${job.type} (${job.id}) failed, retrying in ${delay}ms: ${job.lastError}`);
+          await this.requeue(job, delay);
+        }
+      }
+
+      await this.acknowledge(entry, job.id);
+    } catch (error) {
+      // Not acknowledged: the reaper returns the job to the queue once its lease expires
+      console.error('❌ Job bookkeeping failed, leaving it for the reaper:', error);
+    }
+  }
+
+  private async runHandler(job: QueuedJob): Promise<void> {
+    const handler = this.handlers.get(job.type);
+    if (!handler) {
+      throw new Error(`No handler registered for job type ${job.type}`);
+    }
+    await handler(job.payload, job);
+  }
+
+  private async requeue(job: QueuedJob, delayMs: number): Promise<void> {
+    const client = getRedisClient();
+    if (!client) {
+      throw new Error(`Redis unavailable, cannot retry ${job.type} (${job.id})`);
+    }
+    await client.zAdd(DELAYED_KEY, { score: Date.now() + delayMs, value: JSON.stringify(job) });
+  }
+
+  // Remove a finished, retried or dead-lettered job from the processing list
+  private async acknowledge(entry: string, jobId: string): Promise<void> {
+    const client = getRedisClient();
+    if (!client) {
+      throw new Error(`Redis unavailable, cannot acknowledge job ${jobId}`);
+    }
+    await client.lRem(PROCESSING_KEY, 1, entry);
+    await client.zRem(LEASES_KEY, jobId);
+  }
+
+  private async deadLetter(job: QueuedJob): Promise<void> {
+    job.failedAt = new Date().toISOString();
+    console.error(`❌ Job ${job.type} (${job.id}) failed ${job.attempts} times, moving to dead letters: ${job.lastError}`);
+
+    const client = getRedisClient();
+    if (client) {
+      await client.lPush(DEAD_LETTER_KEY, JSON.stringify(job));
+      await client.lTrim(DEAD_LETTER_KEY, 0, DEAD_LETTER_LIMIT - 1);
+    }
+
+    await Logger.logSystem('job_dead_lettered', {
+      jobId: job.id,
+      jobType: job.type,
+      attempts: job.attempts,
+      lastError: job.lastError,
+      payload: job.payload,
+    }, 'error');
+  }
+}
+
+export const jobQueue = JobQueue.getInstance();
@@ -0,0 +1,376 @@
+import os from 'os';
+import cron from 'node-cron';
+import cronParser from 'cron-parser';
+import { getRedisClient } from '@/config/redis';
+import { Log, ILog } from '@/models/Log';
+import Logger from '@/services/logger';
+
+export interface JobOptions {
+  lockTtlMs?: number; // How long a tick and a run stay claimed; must exceed clock skew and the job's longest run
+}
+
+export interface JobRunStatus {
+  lastRunAt?: string;
+  lastFinishedAt?: string;
+  lastDurationMs?: number;
+  lastOutcome?: 'success' | 'failure';
+  lastError?: string;
+  owner?: string; // Instance that ran the last tick
+}
+
+export interface JobStatus extends JobRunStatus {
+  name: string;
+  schedule: string;
+  nextRunAt: string | null;
+  running: boolean;
+  paused: boolean;
+}
+
+export type JobTrigger = 'schedule' | 'manual';
+
+interface RegisteredJob {
+  name: string;
+  schedule: string;
+  handler: () => Promise<void>;
+  options: Required<JobOptions>;
+  task: cron.ScheduledTask;
+}
+
+const DEFAULT_LOCK_TTL_MS = 5 * 60 * 1000;
+const LOCK_PREFIX = 'job-lock:';
+const RUN_LOCK_PREFIX = 'job-run:'; // Held while a job runs anywhere, scheduled or manual
+const RELEASE_RUN_LOCK_SCRIPT = "if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) end return 0";
+const STATUS_PREFIX = 'job-status:';
+const PAUSED_KEY = 'job-paused'; // Set of paused job names, shared by all instances
+const RUN_HISTORY_LIMIT = 1000; // Runs kept in the log per job, on top of the log's own expiry
+
+// 'run' keeps jobs alive when Redis is down at the risk of duplicates; 'skip' prefers missing a run.
+// Read at use time: the singleton below is built on import, before the entry points load .env.
+const getLockFallback = (): 'run' | 'skip' => process.env.JOB_LOCK_FALLBACK === 'skip' ? 'skip' : 'run';
+
+export class JobScheduler {
+  private static instance: JobScheduler;
+  private jobs: Map<string, RegisteredJob> = new Map();
+  private running: Set<string> = new Set();
+  private localStatus: Map<string, JobRunStatus> = new Map(); // Used when Redis is unavailable
+  private localPaused: Set<string> = new Set();
+  private runLockTokens: Map<string, string> = new Map();
+
+  public static getInstance(): JobScheduler {
+    if (!JobScheduler.instance) {
+      JobScheduler.instance = new JobScheduler();
+    }
+    return JobScheduler.instance;
+  }
+
+  // Read on use, like the lock fallback, so INSTANCE_ID from .env applies
+  public get instanceId(): string {
+    return process.env.INSTANCE_ID || `${os.hostname()}:${process.pid}`;
+  }
+
+  // Register a cron job (UTC) that runs on one instance per tick across the cluster
+  public schedule(name: string, schedule: string, handler: () => Promise<void>, options: JobOptions = {}): void {
+    this.stopJob(name);
+
+    const task = cron.schedule(schedule, async () => {
+      await this.runScheduledTick(name);
+    }, {
+      scheduled: true,
+      timezone: 'UTC'
+    });
+
+    this.jobs.set(name, {
+      name,
+      schedule,
+      handler,
+      options: { lockTtlMs: options.lockTtlMs ?? DEFAULT_LOCK_TTL_MS },
+      task,
+    });
+  }
+
+  public stopJob(name: string): void {
+    const job = this.jobs.get(name);
+    if (!job) return;
+
+    job.task.stop();
+    this.jobs.delete(name);
+    console.log(`🛑 Stopped job: ${name}`);
+  }
+
+  public stopAll(): void {
+    Array.from(this.jobs.keys()).forEach(name => this.stopJob(name));
+  }
+
+  public has(name: string): boolean {
+    return this.jobs.has(name);
+  }
+
+  public async getStatus(): Promise<JobStatus[]> {
+    return Promise.all(Array.from(this.jobs.values()).map(async job => ({
+      name: job.name,
+      schedule: job.schedule,
+      nextRunAt: this.getNextRun(job.schedule),
+      running: this.running.has(job.name),
+      paused: await this.isPaused(job.name),
+      ...(await this.getRunStatus(job.name)),
+    })));
+  }
+
+  // Run a job now on this instance, outside its schedule. Resolves once the run has started.
+  public async trigger(name: string): Promise<'started' | 'running' | 'paused' | 'not_found'> {
+    const job = this.jobs.get(name);
+    if (!job) return 'not_found';
+    if (this.running.has(name)) return 'running';
+    if (await this.isPaused(name)) return 'paused';
+    if (!(await this.acquireRunLock(job))) return 'running';
+
+    this.execute(job, 'manual').catch(error => {
+      console.error(`❌ Manual run of ${name} failed:`, error);
+    });
+    return 'started';
+  }
+
+  // Paused jobs skip their scheduled ticks on every instance until resumed
+  public async pause(name: string): Promise<boolean> {
+    return this.setPaused(name, true);
+  }
+
+  public async resume(name: string): Promise<boolean> {
+    return this.setPaused(name, false);
+  }
+
+  // Most recent runs of a job, as recorded in the system log
+  public async getRecentRuns(name: string, limit: number = 20): Promise<ILog[]> {
+    return Log.find({ type: 'system', action: 'job_run', 'data.job': name })
+      .sort({ createdAt: -1 })
+      .limit(limit);
+  }
+
+  private async runScheduledTick(name: string): Promise<void> {
+    const job = this.jobs.get(name);
+    if (!job) return;
+
+    // A slow run on this instance is not overlapped by the next tick
+    if (this.running.has(name)) {
+      console.warn(`⚠️ Skipping ${name}: previous run still in progress`);
+      return;
+    }
+
+    if (await this.isPaused(name)) return;
+
+    if (!(await this.acquireTickLock(job))) return;
+
+    // A manual run, or a slow run of an earlier tick, may still be going on another instance
+    if (!(await this.acquireRunLock(job))) {
+      console.warn(`⚠️ Skipping ${name}: a run is still in progress on another instance`);
+      return;
+    }
+
+    await this.execute(job, 'schedule');
+  }
+
+  // Claim the current tick. The key includes the tick minute and is never released early,
+  // so an instance whose clock runs slightly behind cannot run the same tick again.
+  private async acquireTickLock(job: RegisteredJob): Promise<boolean> {
+    const client = getRedisClient();
+    if (!client) {
+      if (getLockFallback() === 'skip') {
+        console.warn(`⚠️ Redis unavailable, skipping ${job.name}`);
+        return false;
+      }
+      console.warn(`⚠️ Redis unavailable, running ${job.name} without a cluster lock`);
+      return true;
+    }
+
+    try {
+      const tick = Math.floor(Date.now() / 60000);
+      const acquired = await client.set(`${LOCK_PREFIX}${job.name}:${tick}`, this.instanceId, {
+        NX: true,
+        PX: job.options.lockTtlMs,
+      });
+      return acquired === 'OK';
+    } catch (error) {
+      console.error(`❌ Failed to acquire lock for ${job.name}:`, error);
+      return getLockFallback() === 'run';
+    }
+  }
+
+  // Claim the job for one run across the cluster; released by execute when the run ends
+  private async acquireRunLock(job: RegisteredJob): Promise<boolean> {
+    const client = getRedisClient();
+    if (!client) {
+      return getLockFallback() === 'run';
+    }
+
+    try {
+      const token = `${this.instanceId}:${Date.now()}`;
+      const acquired = await client.set(`${RUN_LOCK_PREFIX}${job.name}`, token, {
+        NX: true,
+        PX: job.options.lockTtlMs,
+      });
+      if (acquired !== 'OK') return false;
+
+      this.runLockTokens.set(job.name, token);
+      return true;
+    } catch (error) {
+      console.error(`❌ Failed to acquire run lock for ${job.name}:`, error);
+      return getLockFallback() === 'run';
+    }
+  }
+
+  // Release only our own lock, in case it expired and another instance has taken it since
+  private async releaseRunLock(name: string): Promise<void> {
+    const token = this.runLockTokens.get(name);
+    if (!token) return;
+    this.runLockTokens.delete(name);
+
+    const client = getRedisClient();
+    if (!client) return;
+
+    try {
+      await client.eval(RELEASE_RUN_LOCK_SCRIPT, { keys: [`${RUN_LOCK_PREFIX}${name}`], arguments: [token] });
+    } catch (error) {
+      console.error(`❌ Failed to release run lock for ${name}:`, error);
+    }
+  }
+
+  private async execute(job: RegisteredJob, trigger: JobTrigger): Promise<void> {
+    const startedAt = new Date();
+    this.running.add(job.name);
+    await this.saveRunStatus(job.name, { lastRunAt: startedAt.toISOString(), owner: this.instanceId });
+
+    let outcome: 'success' | 'failure' = 'success';
+    let errorMessage: string | undefined;
+    try {
+      await job.handler();
+    } catch (error) {
+      outcome = 'failure';
+      errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`❌ Job ${job.name} failed:`, error);
+    } finally {
+      this.running.delete(job.name);
+      await this.releaseRunLock(job.name);
+    }
+
+    const finishedAt = new Date();
+    await this.saveRunStatus(job.name, {
+      lastFinishedAt: finishedAt.toISOString(),
+      lastDurationMs: finishedAt.getTime() - startedAt.getTime(),
+      lastOutcome: outcome,
+      lastError: errorMessage || '',
+    });
+
+    await Logger.logSystem('job_run', {
+      job: job.name,
+      trigger,
+      instanceId: this.instanceId,
+      startedAt,
+      durationMs: finishedAt.getTime() - startedAt.getTime(),
+      outcome,
+      error: errorMessage,
+    }, outcome === 'failure' ? 'error' : 'info');
+
+    await this.pruneRunHistory(job.name);
+  }
+
+  // Keep the newest RUN_HISTORY_LIMIT runs per job, so jobs ticking every minute do not fill the log
+  private async pruneRunHistory(name: string): Promise<void> {
+    try {
+      const oldestKept = await Log.findOne({ type: 'system', action: 'job_run', 'data.job': name }, { createdAt: 1 })
+        .sort({ createdAt: -1 })
+        .skip(RUN_HISTORY_LIMIT - 1);
+      if (!oldestKept) return;
+
+      await Log.deleteMany({
+        type: 'system',
+        action: 'job_run',
+        'data.job': name,
+        createdAt: { $lt: oldestKept.createdAt },
+      });
+    } catch (error) {
+      console.error(`❌ Failed to prune run history of ${name}:`, error);
+    }
+  }
+
+  private async isPaused(name: string): Promise<boolean> {
+    const client = getRedisClient();
+    if (client) {
+      try {
+        return await client.sIsMember(PAUSED_KEY, name);
+      } catch (error) {
+        console.error(`❌ Failed to read pause state for ${name}:`, error);
+      }
+    }
+    return this.localPaused.has(name);
+  }
+
+  private async setPaused(name: string, paused: boolean): Promise<boolean> {
+    if (!this.jobs.has(name)) return false;
+
+    if (paused) {
+      this.localPaused.add(name);
+    } else {
+      this.localPaused.delete(name);
+    }
+
+    const client = getRedisClient();
+    if (client) {
+      if (paused) {
+        await client.sAdd(PAUSED_KEY, name);
+      } else {
+        await client.sRem(PAUSED_KEY, name);
+      }
+    }
+
+    console.log(`${paused ? '⏸️ Paused' : '▶️ Resumed'} job: ${name}`);
+    return true;
+  }
+
+  private getNextRun(schedule: string): string | null {
+    try {
+      return cronParser.parseExpression(schedule, { tz: 'UTC' }).next().toDate().toISOString();
+    } catch {
+      return null;
+    }
+  }
+
+  private async saveRunStatus(name: string, status: JobRunStatus): Promise<void> {
+    this.localStatus.set(name, { ...this.localStatus.get(name), ...status });
+
+    const client = getRedisClient();
+    if (!client) return;
+
+    try {
+      const fields: Record<string, string> = {};
+      Object.entries(status).forEach(([key, value]) => {
+        if (value !== undefined) fields[key] = String(value);
+      });
+      await client.hSet(`${STATUS_PREFIX}${name}`, fields);
+    } catch (error) {
+      console.error(`❌ Failed to save status for ${name}:`, error);
+    }
+  }
+
+  // Cluster-wide status from Redis, falling back to what this instance has seen
+  private async getRunStatus(name: string): Promise<JobRunStatus> {
+    const client = getRedisClient();
+    if (client) {
+      try {
+        const status = await client.hGetAll(`${STATUS_PREFIX}${name}`);
+        if (Object.keys(status).length > 0) {
+          return {
+            ...status,
+            lastDurationMs: status.lastDurationMs ? Number(status.lastDurationMs) : undefined,
+            lastOutcome: status.lastOutcome as JobRunStatus['lastOutcome'],
+            lastError: status.lastError || undefined,
+          };
+        }
+      } catch (error) {
+        console.error(`❌ Failed to read status for ${name}:`, error);
+      }
+    }
+    return this.localStatus.get(name) || {};
+  }
+}
+
+export const jobScheduler = JobScheduler.getInstance();
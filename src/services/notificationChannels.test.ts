@@ -0,0 +1,95 @@
+import { AddressInfo } from 'net';
+import { SMTPServer } from 'smtp-server';
+import { initializeEmail } from '@/config/email';
+import { EmailChannel, NotificationRecipient } from '@/services/notificationChannels';
+
+// Delivery is logged to MongoDB, which these tests do not run
+jest.mock('@/services/logger');
+
+interface ReceivedMail {
+  from?: string;
+  to: string[];
+  raw: string;
+}
+
+let sink: SMTPServer;
+const received: ReceivedMail[] = [];
+
+const recipient = (overrides: Partial<NotificationRecipient> = {}): NotificationRecipient => ({
+  userId: '64b7f0c2a1b2c3d4e5f60718',
+  email: 'ada@example.com',
+  displayName: 'Ada',
+  ...overrides,
+});
+
+const refundMessage = {
+  type: 'payment_refunded',
+  title: 'Refund issued',
+  body: 'We refunded $9.99',
+  emailVariables: { amount: '$9.99' },
+};
+
+beforeAll(async () => {
+  // Local SMTP sink that accepts any unauthenticated mail and keeps it in memory
+  sink = new SMTPServer({
+    authOptional: true,
+    disabledCommands: ['STARTTLS'],
+    onData(stream, session, callback) {
+      let raw = '';
+      stream.on('data', chunk => { raw += chunk.toString(); });
+      stream.on('end', () => {
+        received.push({
+          from: session.envelope.mailFrom ? session.envelope.mailFrom.address : undefined,
+          to: session.envelope.rcptTo.map(address => address.address),
+          raw,
+        });
+        callback();
+      });
+    },
+  });
+  await new Promise<void>(resolve => sink.listen(0, '127.0.0.1', resolve));
+
+  process.env.SMTP_HOST = '127.0.0.1';
+  process.env.SMTP_PORT = String((sink.server.address() as AddressInfo).port);
+  process.env.SMTP_SECURE = 'false';
+  process.env.EMAIL_FROM = 'Fitness Tracker <no-reply@example.com>';
+  initializeEmail();
+});
+
+beforeEach(() => {
+  received.length = 0;
+});
+
+afterAll(async () => {
+  await new Promise<void>(resolve => sink.close(() => resolve()));
+});
+
+describe('EmailChannel', () => {
+  const channel = new EmailChannel();
+
+  it('delivers the rendered template through SMTP', async () => {
+    await expect(channel.send(recipient(), refundMessage)).resolves.toBe(true);
+
+    expect(received).toHaveLength(1);
+    expect(received[0].from).toBe('no-reply@example.com');
+    expect(received[0].to).toEqual(['ada@example.com']);
+    expect(received[0].raw).toContain('Subject: Your refund is on its way');
+    expect(received[0].raw).toContain('We refunded $9.99 to your original payment method.');
+  });
+
+  it('delivers to users with an address and a template for the type', () => {
+    expect(channel.canDeliver(recipient(), refundMessage)).toBe(true);
+    expect(channel.canDeliver(recipient({ email: undefined }), refundMessage)).toBe(false);
+    expect(channel.canDeliver(recipient(), { ...refundMessage, type: 'progress_reminder' })).toBe(false);
+  });
+
+  it('honours the global switch and category opt-outs', () => {
+    const disabled = recipient({ settings: { notificationsEnabled: false } });
+    const billingOptOut = recipient({
+      settings: { notificationsEnabled: true, notificationCategories: { reminders: true, motivational: true, billing: false, marketing: true } },
+    });
+
+    expect(channel.canDeliver(disabled, refundMessage)).toBe(false);
+    expect(channel.canDeliver(billingOptOut, refundMessage)).toBe(false);
+  });
+});
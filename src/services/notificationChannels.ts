@@ -0,0 +1,85 @@
+import mongoose from 'mongoose';
+import { IDevice, IUser, getDeviceTokens } from '@/models/User';
+import { sendMulticastNotification } from '@/config/firebase';
+import { isEmailConfigured, sendEmail } from '@/config/email';
+import { hasEmailTemplate, renderEmailTemplate } from '@/config/emailTemplates';
+import { notificationPolicy } from '@/services/notificationPolicy';
+
+export interface NotificationRecipient {
+  userId: string;
+  email?: string;
+  displayName?: string;
+  devices?: IDevice[];
+  settings?: Partial<IUser['settings']>;
+}
+
+export interface ChannelMessage {
+  type: string; // Notification type, also selects the email template
+  title: string;
+  body: string;
+  data?: Record<string, string>;
+  emailVariables?: Record<string, string | number | undefined>;
+}
+
+export interface NotificationChannel {
+  readonly name: string;
+  canDeliver(recipient: NotificationRecipient, message: ChannelMessage): boolean;
+  send(recipient: NotificationRecipient, message: ChannelMessage): Promise<boolean>;
+}
+
+// Build a recipient from a user document or a cached plain user object
+export const toRecipient = (user: Pick<IUser, 'email' | 'displayName' | 'devices' | 'settings'> & { _id: unknown }): NotificationRecipient => ({
+  userId: (user._id as mongoose.Types.ObjectId).toString(),
+  email: user.email,
+  displayName: user.displayName,
+  devices: user.devices,
+  settings: user.settings,
+});
+
+export class PushChannel implements NotificationChannel {
+  public readonly name = 'push';
+
+  public canDeliver(recipient: NotificationRecipient): boolean {
+    return getDeviceTokens(recipient).length > 0;
+  }
+
+  public async send(recipient: NotificationRecipient, message: ChannelMessage): Promise<boolean> {
+    const response = await sendMulticastNotification(
+      getDeviceTokens(recipient),
+      message.title,
+      message.body,
+      {
+        ...message.data,
+        type: message.type,
+        userId: recipient.userId,
+      },
+      [recipient.userId]
+    );
+    return response.successCount > 0;
+  }
+}
+
+export class EmailChannel implements NotificationChannel {
+  public readonly name = 'email';
+
+  public canDeliver(recipient: NotificationRecipient, message: ChannelMessage): boolean {
+    if (!isEmailConfigured() || !recipient.email || !hasEmailTemplate(message.type)) return false;
+    if (recipient.settings?.notificationsEnabled === false) return false;
+
+    // Email honours the same global switch and category opt-outs as push
+    const category = notificationPolicy.getCategory(message.type);
+    return !category || recipient.settings?.notificationCategories?.[category] !== false;
+  }
+
+  public async send(recipient: NotificationRecipient, message: ChannelMessage): Promise<boolean> {
+    if (!hasEmailTemplate(message.type)) return false;
+
+    const email = renderEmailTemplate(message.type, {
+      name: recipient.displayName,
+      ...message.emailVariables,
+    });
+
+    await sendEmail({ to: recipient.email!, ...email }, recipient.userId, message.type);
+    return true;
+  }
+}
@@ -0,0 +1,79 @@
+import mongoose from 'mongoose';
+import { User } from '@/models/User';
+import { Notification, INotificationDelivery } from '@/models/Notification';
+
+export interface DeliveryResult {
+  success: boolean;
+  messageId?: string;
+  errorCode?: string;
+}
+
+export interface NotificationContent {
+  title: string;
+  body: string;
+  data?: Record<string, string>;
+}
+
+export class NotificationHistoryService {
+  private static instance: NotificationHistoryService;
+
+  public static getInstance(): NotificationHistoryService {
+    if (!NotificationHistoryService.instance) {
+      NotificationHistoryService.instance = new NotificationHistoryService();
+    }
+    return NotificationHistoryService.instance;
+  }
+
+  // Store one inbox entry per recipient, with the delivery outcome of each of their tokens.
+  // results[i] is the outcome for tokens[i]; recording never throws so sending is not affected.
+  public async recordDeliveries(
+    tokens: string[],
+    results: DeliveryResult[],
+    content: NotificationContent
+  ): Promise<void> {
+    try {
+      if (tokens.length === 0) return;
+
+      const owners = await User.find({ 'devices.token': { $in: tokens } }, { 'devices.token': 1 }).lean();
+      const ownerByToken = new Map<string, string>();
+      owners.forEach(owner => owner.devices.forEach(device => ownerByToken.set(device.token, (owner._id as mongoose.Types.ObjectId).toString())));
+
+      const deliveriesByUser = new Map<string, INotificationDelivery[]>();
+      tokens.forEach((token, index) => {
+        const userId = ownerByToken.get(token);
+        if (!userId) return;
+
+        const result = results[index] || { success: false };
+        const deliveries = deliveriesByUser.get(userId) || [];
+        deliveries.push({
+          token,
+          status: result.success ? 'sent' : 'failed',
+          messageId: result.messageId,
+          errorCode: result.errorCode,
+        });
+        deliveriesByUser.set(userId, deliveries);
+      });
+
+      const notifications = Array.from(deliveriesByUser, ([userId, deliveries]) => {
+        const sentCount = deliveries.filter(delivery => delivery.status === 'sent').length;
+        return {
+          userId,
+          type: content.data?.type || 'general',
+          title: content.title,
+          body: content.body,
+          data: content.data || {},
+          deliveries,
+          status: sentCount === deliveries.length ? 'sent' : sentCount === 0 ? 'failed' : 'partial',
+        };
+      });
+
+      if (notifications.length > 0) {
+        await Notification.insertMany(notifications);
+      }
+    } catch (error) {
+      console.error('❌ Failed to record notification history:', error);
+    }
+  }
+}
+
+export const notificationHistory = NotificationHistoryService.getInstance();
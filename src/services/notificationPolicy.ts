@@ -0,0 +1,144 @@
+import mongoose from 'mongoose';
+import { User, IUser, NotificationCategory } from '@/models/User';
+import { Notification } from '@/models/Notification';
+import { DEFAULT_TIMEZONE, getLocalTime } from '@/utils/timezone';
+
+// Notification `data.type` values and the preference category that controls them.
+// Types without a category (welcome, general) are only subject to the global switch, quiet hours and the cap.
+const CATEGORY_BY_TYPE: Record<string, NotificationCategory> = {
+  progress_reminder: 'reminders',
+  motivational: 'motivational',
+  personal_record: 'motivational',
+  trial_expiry: 'billing',
+  trial_expired: 'billing',
+  trial_winback: 'marketing',
+  subscription_confirmed: 'billing',
+  payment_failed: 'billing',
+  renewal_upcoming: 'billing',
+  payment_refunded: 'billing',
+  campaign: 'marketing',
+};
+
+// Billing messages are transactional: they honour the opt-out but are not held back by quiet hours or the cap
+const UNRESTRICTED_CATEGORIES: NotificationCategory[] = ['billing'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface RecipientSettings {
+  _id: mongoose.Types.ObjectId;
+  devices: { token: string }[];
+  settings: IUser['settings'];
+}
+
+export interface PolicyResult {
+  allowedTokens: string[];
+  suppressedCount: number;
+}
+
+export class NotificationPolicy {
+  private static instance: NotificationPolicy;
+
+  public static getInstance(): NotificationPolicy {
+    if (!NotificationPolicy.instance) {
+      NotificationPolicy.instance = new NotificationPolicy();
+    }
+    return NotificationPolicy.instance;
+  }
+
+  public getCategory(type?: string): NotificationCategory | undefined {
+    return type ? CATEGORY_BY_TYPE[type] : undefined;
+  }
+
+  // Drop tokens whose owners should not receive a notification of this type right now.
+  // Tokens that cannot be mapped to a user are passed through unchanged.
+  public async filterTokens(tokens: string[], type?: string, now: Date = new Date()): Promise<PolicyResult> {
+    if (tokens.length === 0) return { allowedTokens: [], suppressedCount: 0 };
+
+    const category = this.getCategory(type);
+    const restricted = !category || !UNRESTRICTED_CATEGORIES.includes(category);
+
+    const owners = await User.find(
+      { 'devices.token': { $in: tokens } },
+      { 'devices.token': 1, settings: 1 }
+    ).lean<RecipientSettings[]>();
+
+    const ownerByToken = new Map<string, RecipientSettings>();
+    owners.forEach(owner => owner.devices.forEach(device => ownerByToken.set(device.token, owner)));
+
+    const eligible = owners.filter(owner =>
+      this.isOptedIn(owner, category) &&
+      (!restricted || !this.isInQuietHours(owner, now))
+    );
+
+    const overCap = restricted ? await this.getUsersOverDailyCap(eligible, now) : new Set<string>();
+    const allowedUsers = new Set(
+      eligible
+        .map(owner => owner._id.toString())
+        .filter(userId => !overCap.has(userId))
+    );
+
+    const allowedTokens = tokens.filter(token => {
+      const owner = ownerByToken.get(token);
+      return !owner || allowedUsers.has(owner._id.toString());
+    });
+
+    return { allowedTokens, suppressedCount: tokens.length - allowedTokens.length };
+  }
+
+  private isOptedIn(user: RecipientSettings, category?: NotificationCategory): boolean {
+    if (user.settings?.notificationsEnabled === false) return false;
+    if (!category) return true;
+    return user.settings?.notificationCategories?.[category] !== false;
+  }
+
+  private isInQuietHours(user: RecipientSettings, now: Date): boolean {
+    const quietHours = user.settings?.quietHours;
+    if (!quietHours?.enabled) return false;
+
+    const toMinutes = (time: string): number => {
+      const [hours, minutes] = time.split(':').map(Number);
+      return hours * 60 + minutes;
+    };
+
+    const { hour, minute } = getLocalTime(now, user.settings.timezone || DEFAULT_TIMEZONE);
+    const current = hour * 60 + minute;
+    const start = toMinutes(quietHours.start);
+    const end = toMinutes(quietHours.end);
+
+    if (start === end) return false;
+    // A window like 22:00-08:00 spans midnight
+    return start < end
+      ? current >= start && current < end
+      : current >= start || current < end;
+  }
+
+  // Users who already received their maximum number of restricted notifications in the last 24 hours
+  private async getUsersOverDailyCap(users: RecipientSettings[], now: Date): Promise<Set<string>> {
+    const capped = users.filter(user => (user.settings?.maxNotificationsPerDay ?? 0) > 0);
+    if (capped.length === 0) return new Set();
+
+    const unrestrictedTypes = Object.keys(CATEGORY_BY_TYPE)
+      .filter(type => UNRESTRICTED_CATEGORIES.includes(CATEGORY_BY_TYPE[type]));
+
+    const counts = await Notification.aggregate<{ _id: mongoose.Types.ObjectId; count: number }>([
+      {
+        $match: {
+          userId: { $in: capped.map(user => user._id) },
+          createdAt: { $gte: new Date(now.getTime() - DAY_MS) },
+          status: { $ne: 'failed' },
+          type: { $nin: unrestrictedTypes },
+        },
+      },
+      { $group: { _id: '$userId', count: { $sum: 1 } } },
+    ]);
+
+    const countByUser = new Map(counts.map(entry => [entry._id.toString(), entry.count]));
+    return new Set(
+      capped
+        .filter(user => (countByUser.get(user._id.toString()) || 0) >= user.settings.maxNotificationsPerDay)
+        .map(user => user._id.toString())
+    );
+  }
+}
+
+export const notificationPolicy = NotificationPolicy.getInstance();
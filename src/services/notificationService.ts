@@ -1,12 +1,43 @@
-import cron from 'node-cron';
-import { User } from '@/models/User';
-import { Progress } from '@/models/Progress';
-import { sendMulticastNotification } from '@/config/firebase';
 import mongoose from 'mongoose';
+import { User, IUser } from '@/models/User';
+import { ReminderDispatch, IReminderDispatch } from '@/models/ReminderDispatch';
+import { IPersonalRecord } from '@/models/PersonalRecord';
+import { sendMulticastNotification } from '@/config/firebase';
+import { cache } from '@/config/redis';
+import { formatAmount } from '@/config/stripe';
+import { campaignService } from '@/services/campaignService';
+import { reminderService } from '@/services/reminderService';
+import { jobScheduler } from '@/services/jobScheduler';
+import { NotificationChannel, NotificationRecipient, ChannelMessage, PushChannel, EmailChannel, toRecipient } from '@/services/notificationChannels';
+import { templateService } from '@/services/templateService';
+import { DEFAULT_TIMEZONE, getLocalDayRange, getLocalTime } from '@/utils/timezone';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+// Last minute whose progress reminders were sent; a run catches up on every minute since
+const REMINDER_CURSOR_KEY = 'progress-reminders:last-minute';
+const MAX_REMINDER_CATCH_UP_MINUTES = 60; // Older reminders are no longer worth sending
+
+type TrialMilestone = 'trial_2_days' | 'trial_1_day' | 'trial_expired_today' | 'trial_winback';
+
+// Each milestone fires while the trial end lies in (now + fromMs, now + toMs]
+const TRIAL_MILESTONES: { milestone: TrialMilestone; fromMs: number; toMs: number; statuses: string[] }[] = [
+  { milestone: 'trial_2_days', fromMs: DAY_MS, toMs: 2 * DAY_MS, statuses: ['free_trial'] },
+  { milestone: 'trial_1_day', fromMs: 0, toMs: DAY_MS, statuses: ['free_trial'] },
+  { milestone: 'trial_expired_today', fromMs: -DAY_MS, toMs: 0, statuses: ['free_trial', 'expired'] },
+  { milestone: 'trial_winback', fromMs: -4 * DAY_MS, toMs: -3 * DAY_MS, statuses: ['free_trial', 'expired'] },
+];
 
 export class NotificationService {
   private static instance: NotificationService;
-  private reminderJobs: Map<string, cron.ScheduledTask> = new Map();
+  private reminderJobs: Set<string> = new Set();
+  private channels: Map<string, NotificationChannel> = new Map();
+
+  private constructor() {
+    this.registerChannel(new PushChannel());
+    this.registerChannel(new EmailChannel());
+  }
 
   public static getInstance(): NotificationService {
     if (!NotificationService.instance) {
@@ -15,116 +46,161 @@ export class NotificationService {
     return NotificationService.instance;
   }
 
-  public startReminderScheduler(): void {
-    // Schedule reminders at 12:00, 18:00, 22:00, and 23:00 UTC
-    const reminderTimes = [
-      { time: '0 12 * * *', hour: 12 }, // 12:00 PM
-      { time: '0 18 * * *', hour: 18 }, // 6:00 PM
-      { time: '0 22 * * *', hour: 22 }, // 10:00 PM
-      { time: '0 23 * * *', hour: 23 }, // 11:00 PM
-    ];
-
-    reminderTimes.forEach(({ time, hour }) => {
-      const job = cron.schedule(time, async () => {
-        await this.sendProgressReminders(hour);
-      }, {
-        scheduled: true,
-        timezone: 'UTC'
-      });
+  public registerChannel(channel: NotificationChannel): void {
+    this.channels.set(channel.name, channel);
+  }
 
-      this.reminderJobs.set(`reminder-${hour}`, job);
-      console.log(`📅 Scheduled progress reminder for ${hour}:00 UTC`);
+  // Deliver through the first channel in `channelOrder` that can reach the recipient,
+  // so users without registered devices fall back to email
+  public async deliver(
+    recipient: NotificationRecipient,
+    message: ChannelMessage,
+    channelOrder: string[] = ['push', 'email']
+  ): Promise<string | null> {
+    for (const name of channelOrder) {
+      const channel = this.channels.get(name);
+      if (!channel || !channel.canDeliver(recipient, message)) continue;
+
+      // A send that reaches nobody (e.g. push held back by quiet hours) is not a delivery
+      if (await channel.send(recipient, message)) {
+        return channel.name;
+      }
+      console.log(`⚠️ ${message.type} was not delivered to user ${recipient.userId} via ${channel.name}`);
+      return null;
+    }
+
+    console.log(`⚠️ No channel available to deliver ${message.type} to user ${recipient.userId}`);
+    return null;
+  }
+
+  public startReminderScheduler(): void {
+    // Evaluate every minute so each user is reminded at their own local reminder times
+    jobScheduler.schedule('progress-reminders', '* * * * *', async () => {
+      await this.sendDueProgressReminders(new Date());
     });
+
+    this.reminderJobs.add('progress-reminders');
+    console.log('📅 Scheduled per-user progress reminders (evaluated every minute)');
   }
 
-  private async sendProgressReminders(hour: number): Promise<void> {
-    try {
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
+  // Send the reminders of every minute since the last run, so a skipped or slow tick loses none.
+  // Per-user dispatch claims keep a minute that is processed twice from reminding anyone twice.
+  private async sendDueProgressReminders(now: Date): Promise<void> {
+    const currentMinute = Math.floor(now.getTime() / MINUTE_MS);
+    const cursor = await cache.get(REMINDER_CURSOR_KEY);
+    const firstMinute = cursor
+      ? Math.max(Number(cursor) + 1, currentMinute - MAX_REMINDER_CATCH_UP_MINUTES + 1)
+      : currentMinute;
+
+    if (currentMinute - firstMinute > 0) {
+      console.log(`⏩ Catching up on ${currentMinute - firstMinute} minutes of progress reminders`);
+    }
 
-      // Find users who haven't tracked progress today and have notifications enabled
-      const users = await User.find({
+    for (let minute = firstMinute; minute <= currentMinute; minute++) {
+      await this.sendProgressReminders(new Date(minute * MINUTE_MS));
+      await cache.set(REMINDER_CURSOR_KEY, minute.toString(), MAX_REMINDER_CATCH_UP_MINUTES * 60);
+    }
+  }
+
+  private async sendProgressReminders(now: Date): Promise<void> {
+    try {
+      const baseQuery = {
         isActive: true,
         'settings.notificationsEnabled': true,
-        'settings.reminderTimes': { $in: [`${hour}:00`] },
-        fcmTokens: { $exists: true, $ne: [] },
-      });
+        'settings.notificationCategories.reminders': { $ne: false },
+        'devices.0': { $exists: true },
+      };
+
+      // Users created before timezones existed have none stored and are treated as UTC
+      const timezones: string[] = await User.distinct('settings.timezone', baseQuery);
+      if (!timezones.includes(DEFAULT_TIMEZONE)) {
+        timezones.push(DEFAULT_TIMEZONE);
+      }
 
-      if (users.length === 0) {
-        console.log(`📱 No users to send reminders to at ${hour}:00`);
-        return;
+      for (const timezone of timezones) {
+        await this.sendProgressRemindersForTimezone(now, timezone, baseQuery);
       }
+    } catch (error) {
+      console.error('❌ Error sending progress reminders:', error);
+    }
+  }
 
-      // Check which users haven't tracked progress today
-      const usersNeedingReminders = [];
-      const allTokens = [];
+  private async sendProgressRemindersForTimezone(now: Date, timezone: string, baseQuery: Record<string, any>): Promise<void> {
+    const { hour, minute } = getLocalTime(now, timezone);
+    const minutes = minute.toString().padStart(2, '0');
+    // Reminder times are stored with or without a leading zero ('7:30' / '07:30')
+    const localTimes = Array.from(new Set([`${hour}:${minutes}`, `${hour.toString().padStart(2, '0')}:${minutes}`]));
 
-      for (const user of users) {
-        const todayProgress = await Progress.findOne({
-          userId: user._id,
-          date: { $gte: today },
+    try {
+      const userFilter = {
+        ...baseQuery,
+        'settings.timezone': timezone === DEFAULT_TIMEZONE ? { $in: [timezone, null] } : timezone,
+        'settings.reminderTimes': { $in: localTimes },
+      };
+
+      // "Today" is the user's local calendar day
+      const today = getLocalDayRange(now, timezone);
+      const milestone = `progress_reminder:${localTimes[localTimes.length - 1]}`;
+
+      // Reminder times without dedicated copy use the generic reminder
+      const templateKey = templateService.getDefinition(`progress_reminder.${hour}`) ? `progress_reminder.${hour}` : 'progress_reminder';
+      let remindedUsers = 0;
+
+      // Users who haven't tracked progress today, streamed in batches
+      for await (const batch of reminderService.streamUsersWithoutProgress(userFilter, today)) {
+        // Each reminder time is sent once per local day, even when a minute is caught up on again
+        const claimed = new Set(await ReminderDispatch.claimMany(
+          batch.map(recipient => recipient.userId),
+          milestone,
+          today.start,
+          new Date(today.end.getTime() + DAY_MS)
+        ));
+        const recipients = batch.filter(recipient => claimed.has(recipient.userId));
+
+        // One multicast per locale so every user gets copy in their language
+        const recipientsByLocale = new Map<string, typeof recipients>();
+        recipients.forEach(recipient => {
+          const locale = recipient.locale || '';
+          recipientsByLocale.set(locale, [...(recipientsByLocale.get(locale) || []), recipient]);
         });
 
-        if (!todayProgress) {
-          usersNeedingReminders.push(user);
-          allTokens.push(...user.fcmTokens);
+        for (const [locale, localeRecipients] of recipientsByLocale) {
+          const { title, body } = await templateService.render(templateKey, locale || undefined);
+
+          await sendMulticastNotification(
+            localeRecipients.flatMap(recipient => recipient.tokens),
+            title,
+            body,
+            {
+              type: 'progress_reminder',
+              hour: hour.toString(),
+              timezone,
+              timestamp: now.toISOString(),
+            },
+            localeRecipients.map(recipient => recipient.userId)
+          );
         }
+        remindedUsers += recipients.length;
       }
 
-      if (allTokens.length === 0) {
-        console.log(`✅ All users have already tracked progress today at ${hour}:00`);
-        return;
+      if (remindedUsers > 0) {
+        console.log(`📱 Sent progress reminders to ${remindedUsers} users at ${localTimes[0]} ${timezone}`);
       }
-
-      // Send notification
-      const title = this.getReminderTitle(hour);
-      const body = this.getReminderBody(hour);
-
-      await sendMulticastNotification(
-        allTokens,
-        title,
-        body,
-        {
-          type: 'progress_reminder',
-          hour: hour.toString(),
-          timestamp: new Date().toISOString(),
-        }
-      );
-
-      console.log(`📱 Sent progress reminders to ${usersNeedingReminders.length} users at ${hour}:00`);
     } catch (error) {
-      console.error(`❌ Error sending progress reminders at ${hour}:00:`, error);
+      console.error(`❌ Error sending progress reminders at ${localTimes[0]} ${timezone}:`, error);
     }
   }
 
-  private getReminderTitle(hour: number): string {
-    const titles = {
-      12: '🌟 Midday Progress Check!',
-      18: '💪 Evening Fitness Update!',
-      22: '📸 Quick Progress Snap!',
-      23: '⏰ Last Chance Today!',
-    };
-    return titles[hour as keyof typeof titles] || '💪 Track Your Progress!';
-  }
-
-  private getReminderBody(hour: number): string {
-    const bodies = {
-      12: 'Take a moment to capture your fitness journey today! 📸',
-      18: 'How did your workout go? Log your progress now! 🏋️‍♂️',
-      22: "Don't forget to track today's progress! Quick and easy! ✨",
-      23: 'Final reminder: Track your progress before midnight! 🌙',
-    };
-    return bodies[hour as keyof typeof bodies] || 'Time to track your fitness progress! 💪';
-  }
-
-  public async sendWelcomeNotification(userId: string, fcmTokens: string[]): Promise<void> {
+  public async sendWelcomeNotification(userId: string, fcmTokens: string[], locale?: string): Promise<void> {
     try {
       if (fcmTokens.length === 0) return;
 
+      const { title, body } = await templateService.render('welcome', locale);
+
       await sendMulticastNotification(
         fcmTokens,
-        '🎉 Welcome to Gains!',
-        'Start your fitness journey today! Take your first progress photos.',
+        title,
+        body,
         {
           type: 'welcome',
           userId,
@@ -138,72 +214,209 @@ export class NotificationService {
     }
   }
 
-  public async sendTrialExpiryReminder(userId: string, fcmTokens: string[], daysLeft: number): Promise<void> {
+  public async sendTrialExpiryReminder(recipient: NotificationRecipient, daysLeft: number): Promise<string | null> {
     try {
-      if (fcmTokens.length === 0) return;
-
-      const title = daysLeft === 1 
-        ? '⏰ Trial expires tomorrow!'
-        : `⏰ ${daysLeft} days left in trial!`;
-
-      const body = daysLeft === 1
-        ? "Don't lose your progress! Upgrade to premium now."
-        : `Continue your fitness journey with premium features. ${daysLeft} days remaining.`;
+      const { title, body } = await templateService.render(
+        daysLeft === 1 ? 'trial_expiry.tomorrow' : 'trial_expiry',
+        recipient.settings?.locale,
+        { daysLeft }
+      );
 
-      await sendMulticastNotification(
-        fcmTokens,
+      const channel = await this.deliver(recipient, {
+        type: 'trial_expiry',
         title,
         body,
-        {
-          type: 'trial_expiry',
-          userId,
+        data: {
           daysLeft: daysLeft.toString(),
           action: 'upgrade',
-        }
-      );
+        },
+        emailVariables: { daysLeft },
+      });
 
-      console.log(`📱 Sent trial expiry reminder to user ${userId} (${daysLeft} days left)`);
+      if (channel) {
+        console.log(`📱 Sent trial expiry reminder to user ${recipient.userId} via ${channel} (${daysLeft} days left)`);
+      }
+      return channel;
     } catch (error) {
       console.error('❌ Error sending trial expiry reminder:', error);
+      return null;
     }
   }
 
-  public async sendSubscriptionConfirmation(userId: string, fcmTokens: string[]): Promise<void> {
+  // Sent when the trial has just ended and again as a win-back a few days later
+  public async sendTrialEndedNotification(recipient: NotificationRecipient, type: 'trial_expired' | 'trial_winback'): Promise<string | null> {
     try {
-      if (fcmTokens.length === 0) return;
+      const { title, body } = await templateService.render(type, recipient.settings?.locale);
 
-      await sendMulticastNotification(
-        fcmTokens,
-        '🎉 Welcome to Premium!',
-        'You now have unlimited access to all features. Keep crushing your goals!',
-        {
-          type: 'subscription_confirmed',
-          userId,
+      const channel = await this.deliver(recipient, {
+        type,
+        title,
+        body,
+        data: {
+          action: 'upgrade',
+        },
+      });
+
+      if (channel) {
+        console.log(`📱 Sent ${type} notification to user ${recipient.userId} via ${channel}`);
+      }
+      return channel;
+    } catch (error) {
+      console.error(`❌ Error sending ${type} notification:`, error);
+      return null;
+    }
+  }
+
+  public async sendSubscriptionConfirmation(recipient: NotificationRecipient): Promise<void> {
+    try {
+      const { title, body } = await templateService.render('subscription_confirmed', recipient.settings?.locale);
+
+      const channel = await this.deliver(recipient, {
+        type: 'subscription_confirmed',
+        title,
+        body,
+        data: {
           action: 'track_progress',
-        }
-      );
+        },
+      });
 
-      console.log(`📱 Sent subscription confirmation to user ${userId}`);
+      if (channel) {
+        console.log(`📱 Sent subscription confirmation to user ${recipient.userId} via ${channel}`);
+      }
     } catch (error) {
       console.error('❌ Error sending subscription confirmation:', error);
     }
   }
 
-  public async sendMotivationalMessage(userId: string, fcmTokens: string[], streak: number): Promise<void> {
+  // Escalates with each failed attempt: first notice, reminders with the grace deadline, then the final notice
+  public async sendPaymentFailedNotification(
+    recipient: NotificationRecipient,
+    payment: { amount: number; currency: string; attemptCount?: number; nextPaymentAttempt?: Date | null; graceEndsAt?: Date | null }
+  ): Promise<void> {
+    try {
+      const amount = formatAmount(payment.amount, payment.currency);
+      const stage = !payment.nextPaymentAttempt ? 'final' : (payment.attemptCount || 1) > 1 ? 'reminder' : 'first';
+      const graceEndDate = payment.graceEndsAt?.toDateString();
+
+      const { title, body } = await templateService.render(
+        stage === 'first' ? 'payment_failed' : `payment_failed.${stage}`,
+        recipient.settings?.locale,
+        { amount, graceEndDate }
+      );
+
+      const channel = await this.deliver(recipient, {
+        type: 'payment_failed',
+        title,
+        body,
+        data: {
+          action: 'update_payment',
+          stage,
+        },
+        emailVariables: {
+          amount,
+          stage,
+          nextPaymentAttempt: payment.nextPaymentAttempt?.toDateString(),
+          graceEndDate,
+        },
+      });
+
+      if (channel) {
+        console.log(`📱 Sent payment failure notice (${stage}) to user ${recipient.userId} via ${channel}`);
+      }
+    } catch (error) {
+      console.error('❌ Error sending payment failure notice:', error);
+    }
+  }
+
+  public async sendUpcomingRenewalNotification(
+    recipient: NotificationRecipient,
+    renewal: { amount: number; currency: string; renewsAt: Date }
+  ): Promise<void> {
+    try {
+      const amount = formatAmount(renewal.amount, renewal.currency);
+      const renewalDate = renewal.renewsAt.toDateString();
+
+      const { title, body } = await templateService.render('renewal_upcoming', recipient.settings?.locale, { amount, renewalDate });
+
+      const channel = await this.deliver(recipient, {
+        type: 'renewal_upcoming',
+        title,
+        body,
+        data: {
+          action: 'manage_subscription',
+        },
+        emailVariables: { amount, renewalDate },
+      });
+
+      if (channel) {
+        console.log(`📱 Sent renewal notice to user ${recipient.userId} via ${channel}`);
+      }
+    } catch (error) {
+      console.error('❌ Error sending renewal notice:', error);
+    }
+  }
+
+  public async sendRefundNotification(recipient: NotificationRecipient, refund: { amount: number; currency: string }): Promise<void> {
+    try {
+      const amount = formatAmount(refund.amount, refund.currency);
+      const { title, body } = await templateService.render('payment_refunded', recipient.settings?.locale, { amount });
+
+      const channel = await this.deliver(recipient, {
+        type: 'payment_refunded',
+        title,
+        body,
+        emailVariables: { amount },
+      });
+
+      if (channel) {
+        console.log(`📱 Sent refund notice to user ${recipient.userId} via ${channel}`);
+      }
+    } catch (error) {
+      console.error('❌ Error sending refund notice:', error);
+    }
+  }
+
+  // Sent when Stripe announces the trial end; shares the milestones of the hourly check so it is not sent twice
+  public async sendTrialEndingNotification(user: IUser, now: Date = new Date()): Promise<void> {
+    const trialEndsAt = user.subscription.trialEndsAt;
+    if (!trialEndsAt || trialEndsAt <= now) return;
+
+    const daysLeft = Math.ceil((trialEndsAt.getTime() - now.getTime()) / DAY_MS);
+    const milestone = daysLeft <= 1 ? 'trial_1_day' : daysLeft === 2 ? 'trial_2_days' : 'trial_will_end';
+
+    const dispatch = await ReminderDispatch.claim(user._id as mongoose.Types.ObjectId, milestone, trialEndsAt);
+    if (!dispatch) return;
+
+    const channel = await this.sendTrialExpiryReminder(toRecipient(user), daysLeft);
+    await this.completeDispatch(dispatch, channel);
+  }
+
+  // Sent by email only: the account's devices are no longer meant to receive anything
+  public async sendAccountDeletionConfirmation(recipient: NotificationRecipient): Promise<void> {
+    try {
+      const channel = await this.deliver(recipient, {
+        type: 'account_deleted',
+        title: 'Account deleted',
+        body: 'Your account has been deactivated.',
+      }, ['email']);
+
+      if (channel) {
+        console.log(`✉️ Sent account deletion confirmation to user ${recipient.userId}`);
+      }
+    } catch (error) {
+      console.error('❌ Error sending account deletion confirmation:', error);
+    }
+  }
+
+  public async sendMotivationalMessage(userId: string, fcmTokens: string[], streak: number, locale?: string): Promise<void> {
     try {
       if (fcmTokens.length === 0) return;
 
-      const motivationalMessages = [
-        { streak: 3, title: '🔥 3-Day Streak!', body: 'You\'re on fire! Keep the momentum going!' },
-        { streak: 7, title: '🌟 One Week Strong!', body: 'Amazing consistency! You\'re building great habits!' },
-        { streak: 14, title: '💪 Two Weeks of Power!', body: 'Your dedication is inspiring! Keep pushing forward!' },
-        { streak: 30, title: '🏆 30-Day Champion!', body: 'Incredible milestone! You\'re a true fitness warrior!' },
-        { streak: 60, title: '🚀 60-Day Legend!', body: 'Outstanding commitment! You\'re unstoppable!' },
-        { streak: 100, title: '👑 100-Day Master!', body: 'Legendary achievement! You\'ve built an unbreakable habit!' },
-      ];
+      // Only streak milestones have copy
+      const templateKey = `motivational.${streak}`;
+      if (!templateService.getDefinition(templateKey)) return;
 
-      const message = motivationalMessages.find(m => m.streak === streak);
-      if (!message) return;
+      const message = await templateService.render(templateKey, locale);
 
       await sendMulticastNotification(
         fcmTokens,
@@ -223,59 +436,116 @@ export class NotificationService {
     }
   }
 
+  public async sendPersonalRecordNotification(userId: string, fcmTokens: string[], records: IPersonalRecord[], locale?: string): Promise<void> {
+    try {
+      if (fcmTokens.length === 0 || records.length === 0) return;
+
+      const describe = (record: IPersonalRecord): string => {
+        switch (record.type) {
+          case 'estimated_1rm':
+            return `${record.exerciseName}: ${record.value}kg estimated 1RM`;
+          case 'best_set_volume':
+            return `${record.exerciseName}: ${record.weight}kg x ${record.reps} best set`;
+          case 'rep_max':
+            return `${record.exerciseName}: ${record.reps} reps at ${record.weight}kg`;
+          default:
+            return record.exerciseName;
+        }
+      };
+
+      const { title, body } = records.length === 1
+        ? await templateService.render('personal_record', locale, { record: describe(records[0]) })
+        : await templateService.render('personal_record.multiple', locale, {
+          count: records.length,
+          record: describe(records[0]),
+          more: records.length - 1,
+        });
+
+      await sendMulticastNotification(
+        fcmTokens,
+        title,
+        body,
+        {
+          type: 'personal_record',
+          userId,
+          workoutId: records[0].workoutId.toString(),
+          action: 'view_records',
+        }
+      );
+
+      console.log(`📱 Sent personal record notification to user ${userId} (${records.length} records)`);
+    } catch (error) {
+      console.error('❌ Error sending personal record notification:', error);
+    }
+  }
+
   public stopAllReminders(): void {
-    this.reminderJobs.forEach((job, key) => {
-      job.stop();
-      console.log(`🛑 Stopped reminder job: ${key}`);
-    });
+    this.reminderJobs.forEach(name => jobScheduler.stopJob(name));
     this.reminderJobs.clear();
   }
 
   public async scheduleTrialExpiryReminders(): Promise<void> {
-    // Schedule daily check for trial expiry reminders
-    const job = cron.schedule('0 10 * * *', async () => {
+    // Hourly so every milestone window is evaluated regardless of when the trial ends
+    jobScheduler.schedule('trial-expiry-check', '0 * * * *', async () => {
       await this.checkAndSendTrialExpiryReminders();
-    }, {
-      scheduled: true,
-      timezone: 'UTC'
     });
 
-    this.reminderJobs.set('trial-expiry-check', job);
-    console.log('📅 Scheduled daily trial expiry reminder check at 10:00 UTC');
+    this.reminderJobs.add('trial-expiry-check');
+    console.log('📅 Scheduled hourly trial expiry reminder check');
+  }
+
+  public scheduleCampaignDispatcher(): void {
+    // Check every minute for scheduled campaigns that are due
+    jobScheduler.schedule('campaign-dispatch', '* * * * *', async () => {
+      await campaignService.dispatchDueCampaigns();
+    });
+
+    this.reminderJobs.add('campaign-dispatch');
+    console.log('📅 Scheduled campaign dispatcher (evaluated every minute)');
   }
 
-  private async checkAndSendTrialExpiryReminders(): Promise<void> {
+  private async checkAndSendTrialExpiryReminders(now: Date = new Date()): Promise<void> {
     try {
-      const now = new Date();
-      const tomorrow = new Date(now);
-      tomorrow.setDate(tomorrow.getDate() + 1);
-      
-      const twoDaysFromNow = new Date(now);
-      twoDaysFromNow.setDate(twoDaysFromNow.getDate() + 2);
-
-      // Find users whose trials expire in 1 or 2 days
-      const expiringUsers = await User.find({
-        isActive: true,
-        'subscription.status': 'free_trial',
-        'subscription.trialEndsAt': {
-          $gte: now,
-          $lte: twoDaysFromNow,
-        },
-        fcmTokens: { $exists: true, $ne: [] },
-      });
+      // Expired milestones match both statuses, as the lifecycle job may not have flipped the trial yet
+      for (const { milestone, fromMs, toMs, statuses } of TRIAL_MILESTONES) {
+        const users = await User.find({
+          isActive: true,
+          'subscription.status': { $in: statuses },
+          'subscription.trialEndsAt': {
+            $gt: new Date(now.getTime() + fromMs),
+            $lte: new Date(now.getTime() + toMs),
+          },
+        });
+
+        for (const user of users) {
+          const trialEndsAt = user.subscription.trialEndsAt!;
 
-      for (const user of expiringUsers) {
-        const trialEndDate = new Date(user.subscription.trialEndsAt!);
-        const daysLeft = Math.ceil((trialEndDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
-        
-        if (daysLeft > 0 && daysLeft <= 2) {
-          await this.sendTrialExpiryReminder((user._id as mongoose.Types.ObjectId).toString(), user.fcmTokens, daysLeft);
+          // Claimed before sending so overlapping runs cannot send the same milestone twice
+          const dispatch = await ReminderDispatch.claim(user._id as mongoose.Types.ObjectId, milestone, trialEndsAt);
+          if (!dispatch) continue;
+
+          const recipient = toRecipient(user);
+          const channel = milestone === 'trial_2_days' || milestone === 'trial_1_day'
+            ? await this.sendTrialExpiryReminder(recipient, milestone === 'trial_2_days' ? 2 : 1)
+            : await this.sendTrialEndedNotification(recipient, milestone === 'trial_winback' ? 'trial_winback' : 'trial_expired');
+
+          await this.completeDispatch(dispatch, channel);
         }
       }
     } catch (error) {
       console.error('❌ Error checking trial expiry reminders:', error);
     }
   }
+
+  // Record the channel of a sent milestone, or release the claim so a later run within the window retries it
+  private async completeDispatch(dispatch: IReminderDispatch, channel: string | null): Promise<void> {
+    if (channel) {
+      dispatch.channel = channel;
+      await dispatch.save();
+    } else {
+      await dispatch.deleteOne();
+    }
+  }
 }
 
 // Initialize the notification service
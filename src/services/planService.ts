@@ -0,0 +1,147 @@
+import { Plan, IPlan, PlanInterval } from '@/models/Plan';
+import { ENTITLEMENTS, Entitlement } from '@/config/entitlements';
+import { cache } from '@/config/redis';
+import { getRecurringPrice } from '@/config/stripe';
+
+const ACTIVE_PLANS_CACHE_KEY = 'plans:active';
+const PLANS_CACHE_TTL = 300; // 5 minutes
+const PLAN_ENTITLEMENTS_CACHE_KEY = 'plans:entitlements';
+
+// Fields shown to clients; the Stripe price id stays server-side
+export interface PublicPlan {
+  key: string;
+  name: string;
+  description?: string;
+  interval: PlanInterval;
+  trialDays: number;
+  entitlements: Entitlement[];
+  displayPrice: { amount: number; currency: string };
+}
+
+// Plans that were configured through env vars before the catalogue existed
+const ENVIRONMENT_PLANS: { key: string; name: string; envVar: string; sortOrder: number }[] = [
+  { key: 'monthly', name: 'Monthly', envVar: 'STRIPE_PRICE_ID', sortOrder: 0 },
+  { key: 'yearly', name: 'Yearly', envVar: 'STRIPE_YEARLY_PRICE_ID', sortOrder: 1 },
+];
+const ENVIRONMENT_PLAN_TRIAL_DAYS = 3;
+
+export class PlanService {
+  private static instance: PlanService;
+
+  public static getInstance(): PlanService {
+    if (!PlanService.instance) {
+      PlanService.instance = new PlanService();
+    }
+    return PlanService.instance;
+  }
+
+  public async listActivePlans(): Promise<PublicPlan[]> {
+    const cached = await cache.get(ACTIVE_PLANS_CACHE_KEY);
+    if (cached) {
+      return JSON.parse(cached);
+    }
+
+    const plans = await Plan.find({ isActive: true }).sort({ sortOrder: 1, createdAt: 1 });
+    const publicPlans = plans.map(plan => this.toPublicPlan(plan));
+
+    await cache.set(ACTIVE_PLANS_CACHE_KEY, JSON.stringify(publicPlans), PLANS_CACHE_TTL);
+    return publicPlans;
+  }
+
+  public toPublicPlan(plan: IPlan): PublicPlan {
+    return {
+      key: plan.key,
+      name: plan.name,
+      description: plan.description,
+      interval: plan.interval,
+      trialDays: plan.trialDays,
+      entitlements: plan.entitlements,
+      displayPrice: { amount: plan.displayPrice.amount, currency: plan.displayPrice.currency },
+    };
+  }
+
+  // Plan key of a Stripe price, null for prices this app does not sell
+  public async getPlanKeyForPriceId(priceId: string): Promise<string | null> {
+    const plan = await Plan.findByPriceId(priceId);
+    return plan ? plan.key : null;
+  }
+
+  // Entitlements of a plan, including inactive ones; null when the key is not in the catalogue
+  public async getPlanEntitlements(key: string): Promise<Entitlement[] | null> {
+    let entitlementsByPlan: Record<string, Entitlement[]>;
+
+    const cached = await cache.get(PLAN_ENTITLEMENTS_CACHE_KEY);
+    if (cached) {
+      entitlementsByPlan = JSON.parse(cached);
+    } else {
+      const plans = await Plan.find({}, { key: 1, entitlements: 1 }).lean();
+      entitlementsByPlan = Object.fromEntries(plans.map(plan => [plan.key, plan.entitlements]));
+      await cache.set(PLAN_ENTITLEMENTS_CACHE_KEY, JSON.stringify(entitlementsByPlan), PLANS_CACHE_TTL);
+    }
+
+    return entitlementsByPlan[key] || null;
+  }
+
+  // Check a price can back a plan of the given interval; returns the problem, or the price's amount
+  public async checkStripePrice(
+    priceId: string,
+    interval: PlanInterval
+  ): Promise<{ error: string } | { amount: number; currency: string }> {
+    try {
+      const price = await getRecurringPrice(priceId);
+      if (price.recurring!.interval !== interval || price.recurring!.interval_count !== 1) {
+        return { error: `Stripe price does not bill every ${interval}` };
+      }
+      return { amount: price.unit_amount ?? 0, currency: price.currency };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : 'Invalid Stripe price' };
+    }
+  }
+
+  public async invalidate(): Promise<void> {
+    await cache.del(ACTIVE_PLANS_CACHE_KEY);
+    await cache.del(PLAN_ENTITLEMENTS_CACHE_KEY);
+  }
+
+  // Create catalogue entries for the env-configured prices, so existing deployments keep selling them
+  public async seedPlansFromEnvironment(): Promise<void> {
+    let seeded = 0;
+
+    for (const { key, name, envVar, sortOrder } of ENVIRONMENT_PLANS) {
+      const priceId = process.env[envVar];
+      if (!priceId) continue;
+
+      try {
+        if (await Plan.exists({ $or: [{ key }, { stripePriceId: priceId }] })) continue;
+
+        const price = await getRecurringPrice(priceId);
+        const interval = price.recurring!.interval;
+        if ((interval !== 'month' && interval !== 'year') || price.recurring!.interval_count !== 1) {
+          console.warn(`⚠️ ${envVar} does not bill monthly or yearly, not seeding the ${key} plan`);
+          continue;
+        }
+
+        await Plan.create({
+          key,
+          name,
+          stripePriceId: priceId,
+          interval,
+          trialDays: ENVIRONMENT_PLAN_TRIAL_DAYS,
+          entitlements: [...ENTITLEMENTS], // Paid access included every feature before entitlements
+          displayPrice: { amount: price.unit_amount ?? 0, currency: price.currency },
+          sortOrder,
+        });
+        seeded++;
+      } catch (error) {
+        console.error(`❌ Failed to seed the ${key} plan from ${envVar}:`, error);
+      }
+    }
+
+    if (seeded > 0) {
+      await this.invalidate();
+    }
+    console.log(`💳 Plan catalogue ready (${seeded} plans seeded from environment)`);
+  }
+}
+
+export const planService = PlanService.getInstance();
@@ -0,0 +1,184 @@
+import mongoose from 'mongoose';
+import { Workout, IWorkout, IWorkoutSet } from '@/models/Workout';
+import { PersonalRecord, IPersonalRecord, RecordType } from '@/models/PersonalRecord';
+
+const round = (value: number): number => Math.round(value * 10) / 10;
+
+// Epley: w * (1 + r / 30)
+export const epleyOneRepMax = (weight: number, reps: number): number => {
+  return reps === 1 ? weight : round(weight * (1 + reps / 30));
+};
+
+// Brzycki: w * 36 / (37 - r), undefined past 36 reps
+export const brzyckiOneRepMax = (weight: number, reps: number): number | undefined => {
+  if (reps >= 37) return undefined;
+  return reps === 1 ? weight : round((weight * 36) / (37 - reps));
+};
+
+interface RecordCandidate {
+  type: RecordType;
+  value: number;
+  weight: number;
+  reps: number;
+  estimates?: { epley?: number; brzycki?: number };
+}
+
+export class RecordService {
+  private static instance: RecordService;
+
+  public static getInstance(): RecordService {
+    if (!RecordService.instance) {
+      RecordService.instance = new RecordService();
+    }
+    return RecordService.instance;
+  }
+
+  // Detect personal records set in a workout, comparing only against earlier workouts. Records of
+  // later workouts of the same exercises are re-evaluated too, since this one may now beat them.
+  // Pass the workout's date and exercises before an edit so the days it moved away from are rebuilt as well.
+  public async processWorkout(
+    workout: IWorkout,
+    previous?: { date: Date; exerciseIds: string[] }
+  ): Promise<IPersonalRecord[]> {
+    const workoutId = workout._id as mongoose.Types.ObjectId;
+    await PersonalRecord.deleteMany({ workoutId });
+
+    const exerciseIds = new Set([...this.getExerciseIds(workout), ...(previous?.exerciseIds || [])]);
+    const from = previous && previous.date < workout.date ? previous.date : workout.date;
+
+    const records = await this.rebuildRecords(workout.userId, Array.from(exerciseIds), from);
+    return records.filter(record => record.workoutId.equals(workoutId));
+  }
+
+  // Rebuild the records of a deleted workout's exercises from its date on
+  public async removeWorkoutRecords(workout: IWorkout): Promise<void> {
+    await PersonalRecord.deleteMany({ workoutId: workout._id });
+    await this.rebuildRecords(workout.userId, this.getExerciseIds(workout), workout.date);
+  }
+
+  // Catalogue exercises logged in a workout
+  public getExerciseIds(workout: IWorkout): string[] {
+    return Array.from(this.getExerciseSets(workout).keys());
+  }
+
+  // Replay the user's workouts from `from` on in date order, keeping records set before that date
+  private async rebuildRecords(
+    userId: mongoose.Types.ObjectId,
+    exerciseIds: string[],
+    from: Date
+  ): Promise<IPersonalRecord[]> {
+    if (exerciseIds.length === 0) return [];
+    const exerciseObjectIds = exerciseIds.map(id => new mongoose.Types.ObjectId(id));
+
+    await PersonalRecord.deleteMany({ userId, exerciseId: { $in: exerciseObjectIds }, achievedAt: { $gte: from } });
+
+    const [earlier, workouts] = await Promise.all([
+      PersonalRecord.find(
+        { userId, exerciseId: { $in: exerciseObjectIds }, achievedAt: { $lt: from } },
+        { exerciseId: 1, type: 1, value: 1, weight: 1 }
+      ).lean(),
+      Workout.find({ userId, 'exercises.exerciseId': { $in: exerciseObjectIds }, date: { $gte: from } })
+        .sort({ date: 1, _id: 1 }),
+    ]);
+
+    // Records so far per exercise, grown as later workouts set new ones
+    const history = new Map<string, RecordCandidate[]>();
+    earlier.forEach(record => {
+      const key = record.exerciseId.toString();
+      history.set(key, [...(history.get(key) || []), record as RecordCandidate]);
+    });
+
+    const records: Partial<IPersonalRecord>[] = [];
+    for (const workout of workouts) {
+      for (const [exerciseId, { name, sets }] of this.getExerciseSets(workout)) {
+        if (!exerciseIds.includes(exerciseId) || sets.length === 0) continue;
+
+        const exerciseHistory = history.get(exerciseId) || [];
+        const newRecords: RecordCandidate[] = [];
+        for (const candidate of this.getCandidates(sets)) {
+          const previousValue = this.getBest(exerciseHistory, candidate);
+          if (previousValue !== undefined && candidate.value <= previousValue) continue;
+
+          newRecords.push(candidate);
+          records.push({
+            userId,
+            exerciseId: new mongoose.Types.ObjectId(exerciseId),
+            exerciseName: name,
+            workoutId: workout._id as mongoose.Types.ObjectId,
+            ...candidate,
+            previousValue,
+            achievedAt: workout.date,
+          });
+        }
+        history.set(exerciseId, [...exerciseHistory, ...newRecords]);
+      }
+    }
+
+    if (records.length === 0) return [];
+    return PersonalRecord.insertMany(records) as unknown as Promise<IPersonalRecord[]>;
+  }
+
+  // Working sets per catalogue exercise, merging entries of the same exercise
+  private getExerciseSets(workout: IWorkout): Map<string, { name: string; sets: IWorkoutSet[] }> {
+    const setsByExercise = new Map<string, { name: string; sets: IWorkoutSet[] }>();
+    for (const exercise of workout.exercises) {
+      if (!exercise.exerciseId) continue;
+      const key = exercise.exerciseId.toString();
+      const entry = setsByExercise.get(key) || { name: exercise.name, sets: [] };
+      entry.sets.push(...exercise.sets.filter(set => !set.isWarmup && set.reps > 0 && set.weight > 0));
+      setsByExercise.set(key, entry);
+    }
+    return setsByExercise;
+  }
+
+  private getCandidates(sets: IWorkoutSet[]): RecordCandidate[] {
+    const candidates: RecordCandidate[] = [];
+
+    // Estimated one rep max
+    const bestOneRepMax = sets
+      .map(set => ({ set, epley: epleyOneRepMax(set.weight, set.reps) }))
+      .reduce((best, current) => (current.epley > best.epley ? current : best));
+    candidates.push({
+      type: 'estimated_1rm',
+      value: bestOneRepMax.epley,
+      weight: bestOneRepMax.set.weight,
+      reps: bestOneRepMax.set.reps,
+      estimates: {
+        epley: bestOneRepMax.epley,
+        brzycki: brzyckiOneRepMax(bestOneRepMax.set.weight, bestOneRepMax.set.reps),
+      },
+    });
+
+    // Best single set volume
+    const bestVolume = sets.reduce((best, set) => (set.weight * set.reps > best.weight * best.reps ? set : best));
+    candidates.push({
+      type: 'best_set_volume',
+      value: round(bestVolume.weight * bestVolume.reps),
+      weight: bestVolume.weight,
+      reps: bestVolume.reps,
+    });
+
+    // Rep max per load, skipping sets beaten by a heavier set with as many reps
+    const repsByWeight = new Map<number, number>();
+    sets.forEach(set => repsByWeight.set(set.weight, Math.max(repsByWeight.get(set.weight) || 0, set.reps)));
+    for (const [weight, reps] of repsByWeight) {
+      const dominated = Array.from(repsByWeight).some(([w, r]) => w > weight && r >= reps);
+      if (dominated) continue;
+      candidates.push({ type: 'rep_max', value: reps, weight, reps });
+    }
+
+    return candidates;
+  }
+
+  // Best earlier value of the candidate's record type, undefined when there is none
+  private getBest(history: RecordCandidate[], candidate: RecordCandidate): number | undefined {
+    const values = history
+      .filter(record => record.type === candidate.type)
+      // A rep max also counts as beaten when the reps were matched at a heavier load
+      .filter(record => candidate.type !== 'rep_max' || record.weight >= candidate.weight)
+      .map(record => record.value);
+    return values.length > 0 ? Math.max(...values) : undefined;
+  }
+}
+
+export const recordService = RecordService.getInstance();
@@ -0,0 +1,81 @@
+import mongoose from 'mongoose';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import { User } from '@/models/User';
+import { Progress } from '@/models/Progress';
+import { reminderService } from '@/services/reminderService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const today = { start: new Date('2026-03-10T00:00:00.000Z'), end: new Date('2026-03-11T00:00:00.000Z') };
+
+let mongo: MongoMemoryServer;
+
+const createUser = (name: string, tokens: string[], overrides: Record<string, any> = {}) =>
+  User.create({
+    firebaseUid: `uid-${name}`,
+    email: `${name}@example.com`,
+    devices: tokens.map(token => ({ token, platform: 'ios' })),
+    ...overrides,
+  });
+
+const logProgress = (userId: unknown, date: Date) =>
+  Progress.create({ userId, date, weight: 80 });
+
+beforeAll(async () => {
+  mongo = await MongoMemoryServer.create();
+  await mongoose.connect(mongo.getUri());
+});
+
+afterEach(async () => {
+  await Promise.all([User.deleteMany({}), Progress.deleteMany({})]);
+});
+
+afterAll(async () => {
+  await mongoose.disconnect();
+  await mongo?.stop();
+});
+
+describe('ReminderService.findUsersWithoutProgress', () => {
+  it('returns users without an entry in the range, with their tokens and locale', async () => {
+    const logged = await createUser('logged', ['token-logged']);
+    const missing = await createUser('missing', ['token-a', 'token-b'], { settings: { locale: 'de' } });
+    await logProgress(logged._id, new Date(today.start.getTime() + 8 * 60 * 60 * 1000));
+
+    const recipients = await reminderService.findUsersWithoutProgress({}, today);
+
+    expect(recipients).toEqual([
+      { userId: missing.id, tokens: ['token-a', 'token-b'], locale: 'de' },
+    ]);
+  });
+
+  it('ignores entries outside the range', async () => {
+    const user = await createUser('yesterday', ['token-yesterday']);
+    await logProgress(user._id, new Date(today.start.getTime() - DAY_MS));
+    await logProgress(user._id, today.end); // The range end is exclusive
+
+    const recipients = await reminderService.findUsersWithoutProgress({}, today);
+
+    expect(recipients.map(recipient => recipient.userId)).toEqual([user.id]);
+  });
+
+  it('skips users without devices and applies the user filter', async () => {
+    await createUser('no-devices', []);
+    await createUser('inactive', ['token-inactive'], { isActive: false });
+    const active = await createUser('active', ['token-active']);
+
+    const recipients = await reminderService.findUsersWithoutProgress({ isActive: true }, today);
+
+    expect(recipients.map(recipient => recipient.userId)).toEqual([active.id]);
+  });
+
+  it('yields every recipient across batches', async () => {
+    const users = await Promise.all(['a', 'b', 'c', 'd', 'e'].map(name => createUser(name, [`token-${name}`])));
+
+    const batches = [];
+    for await (const batch of reminderService.streamUsersWithoutProgress({}, today, 2)) {
+      batches.push(batch);
+    }
+
+    expect(batches.map(batch => batch.length)).toEqual([2, 2, 1]);
+    expect(batches.flat().map(recipient => recipient.userId).sort()).toEqual(users.map(user => user.id).sort());
+  });
+});
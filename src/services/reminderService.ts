@@ -0,0 +1,90 @@
+import mongoose from 'mongoose';
+import { User } from '@/models/User';
+import { Progress } from '@/models/Progress';
+
+export interface ReminderRecipient {
+  userId: string;
+  tokens: string[];
+  locale?: string;
+}
+
+export interface DayRange {
+  start: Date;
+  end: Date;
+}
+
+const DEFAULT_BATCH_SIZE = 1000;
+
+export class ReminderService {
+  private static instance: ReminderService;
+
+  public static getInstance(): ReminderService {
+    if (!ReminderService.instance) {
+      ReminderService.instance = new ReminderService();
+    }
+    return ReminderService.instance;
+  }
+
+  // Stream users matching `userFilter` that have no progress entry inside `range`, in batches.
+  // A single aggregation does the anti-join in the database (one indexed {userId, date} probe per
+  // user on the server side) and the cursor keeps memory bounded regardless of user count.
+  public async *streamUsersWithoutProgress(
+    userFilter: Record<string, any>,
+    range: DayRange,
+    batchSize: number = DEFAULT_BATCH_SIZE
+  ): AsyncGenerator<ReminderRecipient[]> {
+    const cursor = User.aggregate<{ _id: mongoose.Types.ObjectId; tokens: string[]; locale?: string }>([
+      { $match: userFilter },
+      {
+        $lookup: {
+          from: Progress.collection.name,
+          let: { userId: '$_id' },
+          pipeline: [
+            {
+              $match: {
+                $expr: {
+                  $and: [
+                    { $eq: ['$userId', '$$userId'] },
+                    { $gte: ['$date', range.start] },
+                    { $lt: ['$date', range.end] },
+                  ],
+                },
+              },
+            },
+            { $limit: 1 },
+            { $project: { _id: 1 } },
+          ],
+          as: 'todayProgress',
+        },
+      },
+      { $match: { todayProgress: { $size: 0 } } },
+      { $project: { tokens: '$devices.token', locale: '$settings.locale' } },
+    ]).cursor({ batchSize });
+
+    let batch: ReminderRecipient[] = [];
+    for await (const user of cursor) {
+      if (!user.tokens || user.tokens.length === 0) continue;
+
+      batch.push({ userId: user._id.toString(), tokens: user.tokens, locale: user.locale });
+      if (batch.length >= batchSize) {
+        yield batch;
+        batch = [];
+      }
+    }
+
+    if (batch.length > 0) {
+      yield batch;
+    }
+  }
+
+  // Convenience wrapper collecting every batch, e.g. for benchmarks and tests
+  public async findUsersWithoutProgress(userFilter: Record<string, any>, range: DayRange): Promise<ReminderRecipient[]> {
+    const recipients: ReminderRecipient[] = [];
+    for await (const batch of this.streamUsersWithoutProgress(userFilter, range)) {
+      recipients.push(...batch);
+    }
+    return recipients;
+  }
+}
+
+export const reminderService = ReminderService.getInstance();
@@ -0,0 +1,147 @@
+import { Progress } from '@/models/Progress';
+import { User } from '@/models/User';
+import { cache } from '@/config/redis';
+import { jobQueue } from '@/services/jobQueue';
+import { DEFAULT_TIMEZONE, getLocalDateKey, shiftDateKey } from '@/utils/timezone';
+
+export const STREAK_MILESTONES = [3, 7, 14, 30, 60, 100];
+
+export interface StreakInfo {
+  currentStreak: number;
+  longestStreak: number;
+  currentStreakStartedOn: string | null; // YYYY-MM-DD in the user's timezone
+  lastLoggedOn: string | null;
+  timezone: string;
+}
+
+// Cached independently of "today" so the value stays correct across midnight
+interface StreakSnapshot {
+  timezone: string;
+  longestStreak: number;
+  lastRunStart: string | null;
+  lastRunLength: number;
+  lastLoggedOn: string | null;
+}
+
+const STREAK_CACHE_TTL = 24 * 60 * 60; // 1 day
+
+export class StreakService {
+  private static instance: StreakService;
+
+  public static getInstance(): StreakService {
+    if (!StreakService.instance) {
+      StreakService.instance = new StreakService();
+    }
+    return StreakService.instance;
+  }
+
+  public async getStreak(userId: string, timezone: string = DEFAULT_TIMEZONE): Promise<StreakInfo> {
+    const snapshot = await this.getSnapshot(userId, timezone);
+
+    // The last run is only current when it reaches today or yesterday
+    const today = getLocalDateKey(new Date(), timezone);
+    const isCurrent = snapshot.lastLoggedOn !== null && snapshot.lastLoggedOn >= shiftDateKey(today, -1);
+
+    return {
+      currentStreak: isCurrent ? snapshot.lastRunLength : 0,
+      longestStreak: snapshot.longestStreak,
+      currentStreakStartedOn: isCurrent ? snapshot.lastRunStart : null,
+      lastLoggedOn: snapshot.lastLoggedOn,
+      timezone,
+    };
+  }
+
+  public async invalidate(userId: string): Promise<void> {
+    await cache.del(this.getCacheKey(userId));
+  }
+
+  // Called after a new progress entry: queues the milestone notification once per streak run.
+  // A backfilled entry can jump the streak past a milestone, so the highest one reached is used.
+  // It can also move the run's start earlier, so a run is recognised by any start day inside it.
+  public async handleNewEntry(userId: string, timezone: string = DEFAULT_TIMEZONE): Promise<StreakInfo> {
+    await this.invalidate(userId);
+    const streak = await this.getStreak(userId, timezone);
+
+    const milestone = STREAK_MILESTONES.filter(value => value <= streak.currentStreak).pop();
+    if (!milestone || !streak.currentStreakStartedOn || !streak.lastLoggedOn) {
+      return streak;
+    }
+
+    try {
+      // Atomically claim the milestone so concurrent or repeated entries cannot notify twice,
+      // unless this run already reached it or a higher one. The run is unbroken, so every
+      // milestone recorded with a start day inside it was reached by this same run.
+      const claim = await User.updateOne(
+        {
+          _id: userId,
+          streakMilestones: {
+            $not: {
+              $elemMatch: {
+                milestone: { $gte: milestone },
+                streakStartedOn: { $gte: streak.currentStreakStartedOn, $lte: streak.lastLoggedOn },
+              },
+            },
+          },
+        },
+        {
+          $push: {
+            streakMilestones: {
+              milestone,
+              streakStartedOn: streak.currentStreakStartedOn,
+              notifiedAt: new Date(),
+            },
+          },
+        }
+      );
+
+      if (claim.modifiedCount === 1) {
+        await jobQueue.enqueue('notification.streak_milestone', { userId, streak: milestone });
+      }
+    } catch (error) {
+      console.error('❌ Error handling streak milestone:', error);
+    }
+
+    return streak;
+  }
+
+  private async getSnapshot(userId: string, timezone: string): Promise<StreakSnapshot> {
+    const cacheKey = this.getCacheKey(userId);
+    const cached = await cache.get(cacheKey);
+    if (cached) {
+      const snapshot: StreakSnapshot = JSON.parse(cached);
+      if (snapshot.timezone === timezone) return snapshot;
+    }
+
+    const entries = await Progress.find({ userId }, { date: 1 }).sort({ date: 1 }).lean();
+    const days = Array.from(new Set(entries.map(entry => getLocalDateKey(entry.date, timezone))));
+
+    const snapshot: StreakSnapshot = {
+      timezone,
+      longestStreak: 0,
+      lastRunStart: null,
+      lastRunLength: 0,
+      lastLoggedOn: days.length > 0 ? days[days.length - 1] : null,
+    };
+
+    let previousDay: string | null = null;
+    for (const day of days) {
+      if (previousDay && shiftDateKey(previousDay, 1) === day) {
+        snapshot.lastRunLength += 1;
+      } else {
+        snapshot.lastRunStart = day;
+        snapshot.lastRunLength = 1;
+      }
+      snapshot.longestStreak = Math.max(snapshot.longestStreak, snapshot.lastRunLength);
+      previousDay = day;
+    }
+
+    await cache.set(cacheKey, JSON.stringify(snapshot), STREAK_CACHE_TTL);
+    return snapshot;
+  }
+
+  private getCacheKey(userId: string): string {
+    return `streak:${userId}`;
+  }
+}
+
+export const streakService = StreakService.getInstance();
@@ -0,0 +1,517 @@
+import Stripe from 'stripe';
+import mongoose from 'mongoose';
+import { User, IUser } from '@/models/User';
+import { WebhookEvent, IWebhookEvent, WebhookEventStatus } from '@/models/WebhookEvent';
+import { cache } from '@/config/redis';
+import { getStripe } from '@/config/stripe';
+import Logger from '@/services/logger';
+import { notificationService } from '@/services/notificationService';
+import { planService } from '@/services/planService';
+import { toRecipient } from '@/services/notificationChannels';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_DUNNING_GRACE_DAYS = 7;
+
+// Read when used, as the entry points load .env after this module is imported
+const getDunningGraceDays = (): number => {
+  const parsed = parseInt(process.env.DUNNING_GRACE_DAYS || String(DEFAULT_DUNNING_GRACE_DAYS), 10);
+  return Number.isFinite(parsed) ? Math.max(0, parsed) : DEFAULT_DUNNING_GRACE_DAYS;
+};
+
+interface HandlingResult {
+  result: string;
+  userId?: string;
+  ignored?: boolean; // Nothing was applied, e.g. a stale or unhandled event
+}
+
+export interface ReceiveResult {
+  duplicate: boolean;
+  status: WebhookEventStatus;
+}
+
+export class StripeWebhookService {
+  private static instance: StripeWebhookService;
+
+  public static getInstance(): StripeWebhookService {
+    if (!StripeWebhookService.instance) {
+      StripeWebhookService.instance = new StripeWebhookService();
+    }
+    return StripeWebhookService.instance;
+  }
+
+  // Record and process a verified event once. Throws when processing failed so Stripe retries it.
+  public async receive(event: Stripe.Event): Promise<ReceiveResult> {
+    const { event: record, duplicate } = await WebhookEvent.claim(
+      event.id,
+      event.type,
+      new Date(event.created * 1000),
+      event as unknown as Record<string, any>
+    );
+
+    if (duplicate) {
+      console.log(`↩️ Skipping duplicate webhook event ${event.id} (${record.status})`);
+      return { duplicate: true, status: record.status };
+    }
+
+    await this.process(record, event);
+    if (record.status === 'failed') {
+      throw new Error(`Failed to process webhook event ${event.id}: ${record.error}`);
+    }
+    return { duplicate: false, status: record.status };
+  }
+
+  // Process a stored event again. Ordering protection still applies, so replaying an
+  // old event cannot overwrite newer subscription state.
+  public async replay(eventId: string): Promise<IWebhookEvent | null> {
+    const record = await WebhookEvent.findOneAndUpdate(
+      { eventId, status: { $ne: 'processing' } },
+      { $set: { status: 'processing' }, $unset: { error: 1 }, $inc: { replayCount: 1 } },
+      { new: true }
+    );
+    if (!record) return null;
+
+    await this.process(record, record.payload as Stripe.Event);
+    return record;
+  }
+
+  private async process(record: IWebhookEvent, event: Stripe.Event): Promise<void> {
+    try {
+      const outcome = await this.handleEvent(event);
+      record.status = outcome.ignored ? 'ignored' : 'processed';
+      record.result = outcome.result;
+      if (outcome.userId) {
+        record.set('userId', outcome.userId);
+      }
+      record.processedAt = new Date();
+    } catch (error) {
+      record.status = 'failed';
+      record.error = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`❌ Webhook event ${event.id} (${event.type}) failed:`, error);
+    }
+
+    await record.save();
+  }
+
+  private async handleEvent(event: Stripe.Event): Promise<HandlingResult> {
+    const eventCreatedAt = new Date(event.created * 1000);
+
+    switch (event.type) {
+      case 'checkout.session.completed':
+        return this.handleCheckoutCompleted(event.data.object as Stripe.Checkout.Session, eventCreatedAt);
+
+      case 'customer.subscription.created':
+      case 'customer.subscription.updated':
+        {
+          const subscription = event.data.object as Stripe.Subscription;
+          const userId = await this.getUserIdForCustomer(subscription.customer as string);
+          if (!userId) return { result: 'customer_not_linked', ignored: true };
+
+          if (event.type === 'customer.subscription.updated' && !(await this.isCurrentSubscription(userId, subscription.id))) {
+            return { result: 'subscription_replaced', userId, ignored: true };
+          }
+
+          const applied = await this.applySubscriptionState(userId, eventCreatedAt, await this.getSubscriptionState(subscription));
+          if (!applied.previous) return { result: applied.reason, userId, ignored: true };
+
+          const action = event.type === 'customer.subscription.created' ? 'subscription_created' : 'subscription_updated';
+          await Logger.logSubscription(action, userId, {
+            subscriptionId: subscription.id,
+            status: subscription.status,
+            currentPeriodStart: new Date(subscription.current_period_start * 1000),
+            currentPeriodEnd: new Date(subscription.current_period_end * 1000),
+            cancelAtPeriodEnd: subscription.cancel_at_period_end,
+            source: 'stripe_webhook',
+          });
+          return { result: action, userId };
+        }
+
+      case 'customer.subscription.deleted':
+        {
+          const subscription = event.data.object as Stripe.Subscription;
+          const userId = await this.getUserIdForCustomer(subscription.customer as string);
+          if (!userId) return { result: 'customer_not_linked', ignored: true };
+
+          // Ending a subscription the user has since replaced must not end the new one
+          if (!(await this.isCurrentSubscription(userId, subscription.id))) {
+            return { result: 'subscription_replaced', userId, ignored: true };
+          }
+
+          const applied = await this.applySubscriptionState(userId, eventCreatedAt, {
+            'subscription.status': 'expired',
+            'subscription.canceledAt': new Date(),
+          });
+          if (!applied.previous) return { result: applied.reason, userId, ignored: true };
+
+          await Logger.logSubscription('subscription_deleted', userId, {
+            subscriptionId: subscription.id,
+            canceledAt: new Date(),
+            source: 'stripe_webhook',
+          });
+          return { result: 'subscription_deleted', userId };
+        }
+
+      case 'customer.subscription.trial_will_end':
+        {
+          const subscription = event.data.object as Stripe.Subscription;
+          const userId = await this.getUserIdForCustomer(subscription.customer as string);
+          if (!userId) return { result: 'customer_not_linked', ignored: true };
+
+          // Keep the local trial end in sync so the reminder milestones fire at the right time
+          const applied = await this.applySubscriptionState(userId, eventCreatedAt, await this.getSubscriptionState(subscription));
+          if (!applied.previous) return { result: applied.reason, userId, ignored: true };
+
+          const user = await User.findById(userId);
+          if (user?.isActive && user.subscription.status === 'free_trial') {
+            await notificationService.sendTrialEndingNotification(user);
+          }
+          return { result: 'trial_will_end', userId };
+        }
+
+      case 'invoice.upcoming':
+        {
+          const invoice = event.data.object as Stripe.Invoice;
+          if (!invoice.subscription) return { result: 'not_a_subscription_invoice', ignored: true };
+
+          const userId = await this.getUserIdForCustomer(invoice.customer as string);
+          if (!userId) return { result: 'customer_not_linked', ignored: true };
+
+          const user = await User.findById(userId);
+          if (!user?.isActive || invoice.amount_due <= 0) return { result: 'nothing_to_notify', userId, ignored: true };
+
+          const renewsAt = invoice.next_payment_attempt ?? invoice.period_end;
+          await notificationService.sendUpcomingRenewalNotification(toRecipient(user), {
+            amount: invoice.amount_due,
+            currency: invoice.currency,
+            renewsAt: new Date(renewsAt * 1000),
+          });
+          return { result: 'renewal_notified', userId };
+        }
+
+      case 'invoice.payment_succeeded':
+        {
+          const invoice = event.data.object as any;
+          if (!invoice.subscription) return { result: 'not_a_subscription_invoice', ignored: true };
+
+          const subscription = await getStripe().subscriptions.retrieve(invoice.subscription);
+          const userId = await this.getUserIdForCustomer(subscription.customer as string);
+          if (!userId) return { result: 'customer_not_linked', ignored: true };
+
+          // Returns the user as it was before the update
+          const applied = await this.applySubscriptionState(userId, eventCreatedAt, {
+            ...(await this.getSubscriptionState(subscription)),
+            'subscription.status': 'active',
+          });
+          const previousUser = applied.previous;
+
+          // Confirm the first paid invoice (new subscription or trial conversion), not every renewal or dunning recovery
+          const isFirstPayment = invoice.billing_reason === 'subscription_create' ||
+            (previousUser && !['active', 'past_due'].includes(previousUser.subscription.status));
+          if (previousUser && isFirstPayment && invoice.amount_paid > 0) {
+            await notificationService.sendSubscriptionConfirmation(toRecipient(previousUser));
+          }
+
+          await Logger.logPayment('payment_succeeded', userId, {
+            invoiceId: invoice.id,
+            subscriptionId: subscription.id,
+            amount: invoice.amount_paid,
+            currency: invoice.currency,
+            source: 'stripe_webhook',
+          });
+          return previousUser
+            ? { result: 'payment_succeeded', userId }
+            : { result: applied.reason, userId, ignored: true };
+        }
+
+      case 'invoice.payment_failed':
+        return this.handlePaymentFailed(event.data.object as Stripe.Invoice, eventCreatedAt);
+
+      case 'charge.refunded':
+        {
+          // Access follows the subscription events: a refund alone does not end the subscription
+          const charge = event.data.object as Stripe.Charge;
+          if (!charge.customer) return { result: 'no_customer', ignored: true };
+
+          const userId = await this.getUserIdForCustomer(charge.customer as string);
+          if (!userId) return { result: 'customer_not_linked', ignored: true };
+
+          // amount_refunded is cumulative; the customer is told about the refund that raised it
+          const refundAmount = await this.getLatestRefundAmount(charge, event.data.previous_attributes as Partial<Stripe.Charge> | undefined);
+
+          await Logger.logPayment('payment_refunded', userId, {
+            chargeId: charge.id,
+            invoiceId: charge.invoice,
+            amount: refundAmount,
+            amountRefunded: charge.amount_refunded,
+            fullyRefunded: charge.refunded,
+            currency: charge.currency,
+            source: 'stripe_webhook',
+          });
+
+          const user = await User.findById(userId);
+          if (user?.isActive) {
+            await notificationService.sendRefundNotification(toRecipient(user), {
+              amount: refundAmount,
+              currency: charge.currency,
+            });
+          }
+          return { result: 'payment_refunded', userId };
+        }
+
+      case 'charge.dispute.created':
+        {
+          // Disputes need a human decision; nothing is sent to the customer
+          const dispute = event.data.object as Stripe.Dispute;
+          const charge = typeof dispute.charge === 'string'
+            ? await getStripe().charges.retrieve(dispute.charge)
+            : dispute.charge;
+          const userId = charge.customer ? await this.getUserIdForCustomer(charge.customer as string) : null;
+
+          await Logger.logCritical('Payment disputed', 'payment_disputed', userId || undefined, {
+            disputeId: dispute.id,
+            chargeId: charge.id,
+            amount: dispute.amount,
+            currency: dispute.currency,
+            reason: dispute.reason,
+            evidenceDueBy: dispute.evidence_details?.due_by ? new Date(dispute.evidence_details.due_by * 1000) : null,
+          });
+          return { result: 'dispute_logged', userId: userId || undefined };
+        }
+
+      case 'customer.deleted':
+        {
+          const customer = event.data.object as Stripe.Customer;
+          const user = await User.findOne({ 'subscription.stripeCustomerId': customer.id }, { _id: 1, subscription: 1 });
+          if (!user) return { result: 'customer_not_linked', ignored: true };
+
+          const userId = (user._id as mongoose.Types.ObjectId).toString();
+
+          // Stripe cancels the customer's subscriptions with it; promo access is kept
+          const applied = await this.applySubscriptionState(userId, eventCreatedAt, {
+            ...(user.subscription.source === 'stripe' && user.subscription.status !== 'expired' && {
+              'subscription.status': 'expired',
+              'subscription.canceledAt': new Date(),
+            }),
+          }, ['subscription.stripeCustomerId', 'subscription.stripeSubscriptionId'], true);
+          if (!applied.previous) return { result: applied.reason, userId, ignored: true };
+
+          await Logger.logSubscription('customer_deleted', userId, {
+            customerId: customer.id,
+            source: 'stripe_webhook',
+          });
+          return { result: 'customer_unlinked', userId };
+        }
+
+      default:
+        return { result: 'unhandled_event_type', ignored: true };
+    }
+  }
+
+  // Dunning: keep access during the grace period while Stripe retries, with escalating reminders,
+  // and downgrade once Stripe has made its last attempt
+  private async handlePaymentFailed(invoice: Stripe.Invoice, eventCreatedAt: Date): Promise<HandlingResult> {
+    if (!invoice.subscription) return { result: 'not_a_subscription_invoice', ignored: true };
+
+    const userId = await this.getUserIdForCustomer(invoice.customer as string);
+    if (!userId) return { result: 'customer_not_linked', ignored: true };
+
+    const user = await User.findById(userId);
+    if (!user) return { result: 'user_not_found', userId, ignored: true };
+
+    const nextPaymentAttempt = invoice.next_payment_attempt ? new Date(invoice.next_payment_attempt * 1000) : null;
+    const isFinalAttempt = !nextPaymentAttempt;
+
+    // The grace period starts with the invoice's first failure. The dunning state outlives the
+    // downgrade, so later attempts on the same invoice neither extend nor grant it again.
+    const dunning = user.subscription.dunning;
+    const firstFailedAt = dunning?.firstFailedAt && (dunning.invoiceId === invoice.id || user.subscription.status === 'past_due')
+      ? dunning.firstFailedAt
+      : eventCreatedAt;
+    const graceEndsAt = new Date(firstFailedAt.getTime() + getDunningGraceDays() * DAY_MS);
+    const graceEnded = graceEndsAt <= new Date();
+    const downgrade = isFinalAttempt || graceEnded;
+
+    const applied = await this.applySubscriptionState(userId, eventCreatedAt, downgrade
+      ? { 'subscription.status': 'expired' }
+      : {
+        'subscription.status': 'past_due',
+        'subscription.dunning': {
+          invoiceId: invoice.id,
+          attemptCount: invoice.attempt_count,
+          firstFailedAt,
+          nextRetryAt: nextPaymentAttempt,
+          graceEndsAt,
+        },
+      });
+
+    await Logger.logPayment('payment_failed', userId, {
+      invoiceId: invoice.id,
+      subscriptionId: invoice.subscription,
+      amount: invoice.amount_due,
+      currency: invoice.currency,
+      attemptCount: invoice.attempt_count,
+      nextPaymentAttempt,
+      graceEndsAt: downgrade ? null : graceEndsAt,
+      source: 'stripe_webhook',
+    }, 'failure');
+
+    if (!applied.previous) return { result: applied.reason, userId, ignored: true };
+
+    if (downgrade) {
+      await Logger.logSubscription('subscription_downgraded', userId, {
+        reason: isFinalAttempt ? 'payment_retries_exhausted' : 'grace_period_ended',
+        previousStatus: applied.previous.subscription.status,
+        invoiceId: invoice.id,
+        source: 'stripe_webhook',
+      });
+    }
+
+    if (user.isActive) {
+      await notificationService.sendPaymentFailedNotification(toRecipient(user), {
+        amount: invoice.amount_due,
+        currency: invoice.currency,
+        attemptCount: invoice.attempt_count,
+        nextPaymentAttempt: downgrade ? null : nextPaymentAttempt, // Access has ended, so this is the final notice
+        graceEndsAt: downgrade ? null : graceEndsAt,
+      });
+    }
+
+    console.log(`Payment failed for user ${userId} (attempt ${invoice.attempt_count}${downgrade ? ', downgraded' : ''})`);
+    return { result: downgrade ? 'downgraded' : 'past_due', userId };
+  }
+
+  // Link the checkout's customer and subscription to the user who started it
+  private async handleCheckoutCompleted(session: Stripe.Checkout.Session, eventCreatedAt: Date): Promise<HandlingResult> {
+    if (session.mode !== 'subscription' || !session.subscription || !session.customer) {
+      return { result: 'not_a_subscription_checkout', ignored: true };
+    }
+
+    const customerId = session.customer as string;
+    const userId = session.client_reference_id || session.metadata?.userId || await this.getUserIdForCustomer(customerId);
+    if (!userId) return { result: 'customer_not_linked', ignored: true };
+
+    // A completed purchase replaces any promo access
+    const subscription = await getStripe().subscriptions.retrieve(session.subscription as string);
+    const applied = await this.applySubscriptionState(userId, eventCreatedAt, {
+      ...(await this.getSubscriptionState(subscription)),
+      'subscription.stripeCustomerId': customerId,
+    }, [], true);
+    if (!applied.previous) return { result: applied.reason, userId, ignored: true };
+
+    // The confirmation message follows with the first paid invoice
+    await Logger.logSubscription('checkout_completed', userId, {
+      sessionId: session.id,
+      subscriptionId: subscription.id,
+      customerId,
+      status: subscription.status,
+      source: 'stripe_webhook',
+    });
+    return { result: 'checkout_completed', userId };
+  }
+
+  private async getUserIdForCustomer(customerId: string): Promise<string | null> {
+    const user = await User.findOne({ 'subscription.stripeCustomerId': customerId }, { _id: 1 });
+    if (user) return (user._id as mongoose.Types.ObjectId).toString();
+
+    // Customers created before the id was stored carry the user id in their metadata
+    const customer = await getStripe().customers.retrieve(customerId);
+    if (!customer || customer.deleted || !customer.metadata?.userId) return null;
+    return customer.metadata.userId;
+  }
+
+  // Whether events of this subscription describe the user's access: it is the linked one, or none is linked yet
+  private async isCurrentSubscription(userId: string, subscriptionId: string): Promise<boolean> {
+    const user = await User.findById(userId, { 'subscription.stripeSubscriptionId': 1 });
+    const currentId = user?.subscription.stripeSubscriptionId;
+    return !currentId || currentId === subscriptionId;
+  }
+
+  // Local subscription fields mirroring a Stripe subscription
+  private async getSubscriptionState(subscription: Stripe.Subscription): Promise<Record<string, any>> {
+    const plan = subscription.items?.data[0] ? await planService.getPlanKeyForPriceId(subscription.items.data[0].price.id) : null;
+
+    // past_due is left to invoice.payment_failed, which brings the grace period that keeps access
+    const status = subscription.status === 'trialing' ? 'free_trial' :
+                   subscription.status === 'active' ? 'active' :
+                   subscription.status === 'past_due' ? null :
+                   subscription.status === 'canceled' ? 'canceled' : 'expired'; // 'unpaid' once Stripe gives up
+
+    return {
+      ...(status && { 'subscription.status': status }),
+      'subscription.stripeSubscriptionId': subscription.id,
+      'subscription.source': 'stripe',
+      'subscription.currentPeriodStart': new Date(subscription.current_period_start * 1000),
+      'subscription.currentPeriodEnd': new Date(subscription.current_period_end * 1000),
+      ...(subscription.trial_end && { 'subscription.trialEndsAt': new Date(subscription.trial_end * 1000) }),
+      ...(plan && { 'subscription.plan': plan }),
+    };
+  }
+
+  // Amount of the refund behind a charge.refunded event, from the change in amount_refunded when Stripe sent it
+  private async getLatestRefundAmount(charge: Stripe.Charge, previous?: Partial<Stripe.Charge>): Promise<number> {
+    if (typeof previous?.amount_refunded === 'number') {
+      return charge.amount_refunded - previous.amount_refunded;
+    }
+
+    const refunds = await getStripe().refunds.list({ charge: charge.id, limit: 1 });
+    return refunds.data[0]?.amount ?? charge.amount_refunded;
+  }
+
+  // Apply subscription fields unless a newer event was already applied. Recovering clears the dunning state;
+  // a downgrade keeps it so the invoice's grace period is not granted again.
+  // A current promo grant is kept unless overridePromo is set: Stripe events for an old or lapsed
+  // subscription must not take away access the user redeemed since.
+  // Returns the user as it was before the update, or why nothing was applied.
+  private async applySubscriptionState(
+    userId: string,
+    eventCreatedAt: Date,
+    update: Record<string, any>,
+    unset: string[] = [],
+    overridePromo: boolean = false
+  ): Promise<{ previous: IUser | null; reason: string }> {
+    const status = update['subscription.status'];
+    if (status === 'active' || status === 'free_trial') {
+      unset = [...unset, 'subscription.dunning'];
+    }
+
+    const currentPromo = {
+      'subscription.source': 'promo',
+      'subscription.status': 'active',
+      'subscription.currentPeriodEnd': { $gt: new Date() },
+    };
+
+    const previous = await User.findOneAndUpdate(
+      {
+        _id: userId,
+        $or: [
+          { 'subscription.lastEventAt': { $exists: false } },
+          { 'subscription.lastEventAt': { $lte: eventCreatedAt } },
+        ],
+        ...(!overridePromo && { $nor: [currentPromo] }),
+      },
+      {
+        $set: { ...update, 'subscription.lastEventAt': eventCreatedAt },
+        ...(unset.length > 0 && { $unset: Object.fromEntries(unset.map(field => [field, 1])) }),
+      }
+    );
+
+    if (previous) {
+      await cache.del(`user:${previous.firebaseUid}`);
+      return { previous, reason: 'applied' };
+    }
+
+    const exists = await User.exists({ _id: userId });
+    if (!exists) {
+      return { previous: null, reason: 'user_not_found' };
+    }
+
+    if (!overridePromo && await User.exists({ _id: userId, ...currentPromo })) {
+      console.log(`⏭️ Keeping promo access of user ${userId}, ignoring Stripe subscription state`);
+      return { previous: null, reason: 'promo_access_kept' };
+    }
+
+    console.log(`⏭️ Ignoring stale webhook state for user ${userId} (event created ${eventCreatedAt.toISOString()})`);
+    return { previous: null, reason: 'stale_event' };
+  }
+}
+
+export const stripeWebhookService = StripeWebhookService.getInstance();
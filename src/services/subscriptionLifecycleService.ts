@@ -0,0 +1,123 @@
+import mongoose from 'mongoose';
+import { User } from '@/models/User';
+import { cache } from '@/config/redis';
+import Logger from '@/services/logger';
+import { jobScheduler } from '@/services/jobScheduler';
+
+export type ExpiryReason = 'trial_ended' | 'canceled_period_ended' | 'promo_ended' | 'grace_period_ended';
+
+export interface LifecycleTransition {
+  userId: string;
+  email: string;
+  reason: ExpiryReason;
+  fromStatus: string;
+  endedAt?: Date;
+}
+
+export interface LifecycleResult {
+  dryRun: boolean;
+  checkedAt: Date;
+  transitions: LifecycleTransition[];
+  expiredCount: number;
+}
+
+// Subscriptions that lose access once their end date has passed
+const EXPIRY_RULES: { reason: ExpiryReason; status: string; endField: string; filter?: Record<string, any> }[] = [
+  { reason: 'trial_ended', status: 'free_trial', endField: 'subscription.trialEndsAt' },
+  { reason: 'canceled_period_ended', status: 'canceled', endField: 'subscription.currentPeriodEnd' },
+  { reason: 'promo_ended', status: 'active', endField: 'subscription.currentPeriodEnd', filter: { 'subscription.source': 'promo' } },
+  { reason: 'grace_period_ended', status: 'past_due', endField: 'subscription.dunning.graceEndsAt' },
+];
+
+export class SubscriptionLifecycleService {
+  private static instance: SubscriptionLifecycleService;
+
+  public static getInstance(): SubscriptionLifecycleService {
+    if (!SubscriptionLifecycleService.instance) {
+      SubscriptionLifecycleService.instance = new SubscriptionLifecycleService();
+    }
+    return SubscriptionLifecycleService.instance;
+  }
+
+  public scheduleLifecycleJob(): void {
+    jobScheduler.schedule('subscription-lifecycle', '*/15 * * * *', async () => {
+      await this.expireDueSubscriptions();
+    });
+
+    console.log('📅 Scheduled subscription lifecycle job (every 15 minutes)');
+  }
+
+  public stopLifecycleJob(): void {
+    jobScheduler.stopJob('subscription-lifecycle');
+  }
+
+  // Subscriptions whose access has ended but whose status has not been updated yet
+  public async findDueTransitions(now: Date = new Date()): Promise<(LifecycleTransition & { firebaseUid: string })[]> {
+    const transitions: (LifecycleTransition & { firebaseUid: string })[] = [];
+
+    for (const rule of EXPIRY_RULES) {
+      const users = await User.find(
+        { 'subscription.status': rule.status, [rule.endField]: { $lte: now }, ...rule.filter },
+        { firebaseUid: 1, email: 1, subscription: 1 }
+      );
+
+      users.forEach(user => transitions.push({
+        userId: (user._id as mongoose.Types.ObjectId).toString(),
+        firebaseUid: user.firebaseUid,
+        email: user.email,
+        reason: rule.reason,
+        fromStatus: rule.status,
+        endedAt: rule.reason === 'trial_ended' ? user.subscription.trialEndsAt :
+                 rule.reason === 'grace_period_ended' ? user.subscription.dunning?.graceEndsAt :
+                 user.subscription.currentPeriodEnd,
+      }));
+    }
+
+    return transitions;
+  }
+
+  // Move ended subscriptions to 'expired'. With dryRun nothing is written.
+  public async expireDueSubscriptions(options: { dryRun?: boolean; now?: Date } = {}): Promise<LifecycleResult> {
+    const { dryRun = false, now = new Date() } = options;
+    const due = await this.findDueTransitions(now);
+    const transitions = due.map(({ firebaseUid, ...transition }) => transition);
+
+    if (dryRun) {
+      return { dryRun, checkedAt: now, transitions, expiredCount: 0 };
+    }
+
+    let expiredCount = 0;
+    for (const transition of due) {
+      const rule = EXPIRY_RULES.find(({ reason }) => reason === transition.reason)!;
+
+      // Conditional on the whole rule, so a concurrent upgrade, renewal or extension is never overwritten
+      const result = await User.updateOne(
+        {
+          _id: transition.userId,
+          'subscription.status': transition.fromStatus,
+          [rule.endField]: { $lte: now },
+          ...rule.filter,
+        },
+        { $set: { 'subscription.status': 'expired' } } // Dunning is kept so the invoice's grace is not granted again
+      );
+      if (result.modifiedCount === 0) continue;
+
+      expiredCount++;
+      await cache.del(`user:${transition.firebaseUid}`);
+
+      await Logger.logSubscription('subscription_expired', transition.userId, {
+        reason: transition.reason,
+        previousStatus: transition.fromStatus,
+        endedAt: transition.endedAt,
+        source: 'lifecycle_job',
+      });
+    }
+
+    if (expiredCount > 0) {
+      console.log(`⌛ Expired ${expiredCount} subscriptions whose access ended`);
+    }
+    return { dryRun, checkedAt: now, transitions, expiredCount };
+  }
+}
+
+export const subscriptionLifecycleService = SubscriptionLifecycleService.getInstance();
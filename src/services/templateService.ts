@@ -0,0 +1,98 @@
+import { NotificationTemplate } from '@/models/NotificationTemplate';
+import { cache } from '@/config/redis';
+import {
+  DEFAULT_LOCALE,
+  NOTIFICATION_TEMPLATES,
+  NotificationTemplateDefinition,
+  TemplateCopy,
+} from '@/config/notificationTemplates';
+
+const OVERRIDES_CACHE_KEY = 'notification-templates:overrides';
+const OVERRIDES_CACHE_TTL = 300; // 5 minutes
+
+type TemplateVariables = Record<string, string | number | undefined>;
+type OverrideMap = Record<string, TemplateCopy>; // keyed by `${key}:${locale}`
+
+export class TemplateService {
+  private static instance: TemplateService;
+
+  public static getInstance(): TemplateService {
+    if (!TemplateService.instance) {
+      TemplateService.instance = new TemplateService();
+    }
+    return TemplateService.instance;
+  }
+
+  public getDefinition(key: string): NotificationTemplateDefinition | undefined {
+    return NOTIFICATION_TEMPLATES[key];
+  }
+
+  // 'pt-BR' -> ['pt-BR', 'pt', 'en']
+  public getLocaleChain(locale?: string): string[] {
+    const chain: string[] = [];
+    if (locale) {
+      chain.push(locale);
+      const language = locale.split('-')[0];
+      if (language !== locale) chain.push(language);
+    }
+    if (!chain.includes(DEFAULT_LOCALE)) chain.push(DEFAULT_LOCALE);
+    return chain;
+  }
+
+  // Resolve copy for a template, preferring admin overrides, then built-in translations, then English
+  public async render(key: string, locale?: string, variables: TemplateVariables = {}): Promise<TemplateCopy> {
+    const definition = this.getDefinition(key);
+    if (!definition) {
+      throw new Error(`Unknown notification template: ${key}`);
+    }
+
+    const overrides = await this.getOverrides();
+    let copy: TemplateCopy | undefined;
+    for (const candidate of this.getLocaleChain(locale)) {
+      copy = overrides[`${key}:${candidate}`] || definition.copy[candidate];
+      if (copy) break;
+    }
+
+    return {
+      title: this.interpolate(copy!.title, variables),
+      body: this.interpolate(copy!.body, variables),
+    };
+  }
+
+  public interpolate(text: string, variables: TemplateVariables): string {
+    return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => {
+      const value = variables[name];
+      return value === undefined ? '' : String(value);
+    });
+  }
+
+  // Placeholders used in the copy that the template does not provide
+  public findUnknownVariables(key: string, copy: TemplateCopy): string[] {
+    const allowed = this.getDefinition(key)?.variables || [];
+    const used = `${copy.title} ${copy.body}`.match(/\{\{\s*(\w+)\s*\}\}/g) || [];
+    return Array.from(new Set(used.map(placeholder => placeholder.replace(/[{}\s]/g, ''))))
+      .filter(name => !allowed.includes(name));
+  }
+
+  public async invalidate(): Promise<void> {
+    await cache.del(OVERRIDES_CACHE_KEY);
+  }
+
+  private async getOverrides(): Promise<OverrideMap> {
+    const cached = await cache.get(OVERRIDES_CACHE_KEY);
+    if (cached) {
+      return JSON.parse(cached);
+    }
+
+    const templates = await NotificationTemplate.find({}, { key: 1, locale: 1, title: 1, body: 1 }).lean();
+    const overrides: OverrideMap = {};
+    templates.forEach(template => {
+      overrides[`${template.key}:${template.locale}`] = { title: template.title, body: template.body };
+    });
+
+    await cache.set(OVERRIDES_CACHE_KEY, JSON.stringify(overrides), OVERRIDES_CACHE_TTL);
+    return overrides;
+  }
+}
+
+export const templateService = TemplateService.getInstance();
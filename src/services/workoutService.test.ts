@@ -0,0 +1,65 @@
+import mongoose from 'mongoose';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import { Workout } from '@/models/Workout';
+import { Progress } from '@/models/Progress';
+import { workoutService } from '@/services/workoutService';
+
+const TIMEZONE = 'America/New_York'; // UTC-4 in June
+const userId = new mongoose.Types.ObjectId().toString();
+
+let mongo: MongoMemoryServer;
+
+const logWorkout = (date: string, muscleGroups: string[]) =>
+  Workout.create({ userId, date: new Date(date), exercises: [{ name: 'Press', muscleGroups, sets: [] }] });
+
+// Progress dates are date-only, stored at UTC midnight
+const logProgress = (day: string, musclesTrained: string[] = []) =>
+  Progress.create({ userId, date: new Date(`${day}T00:00:00.000Z`), weight: 80, musclesTrained });
+
+beforeAll(async () => {
+  mongo = await MongoMemoryServer.create();
+  await mongoose.connect(mongo.getUri());
+});
+
+afterEach(async () => {
+  await Promise.all([Workout.deleteMany({}), Progress.deleteMany({})]);
+});
+
+afterAll(async () => {
+  await mongoose.disconnect();
+  await mongo?.stop();
+});
+
+describe('WorkoutService.syncProgressMuscles', () => {
+  it('syncs onto the entry of the local day in a negative-offset timezone', async () => {
+    const previousDay = await logProgress('2026-06-09');
+    const day = await logProgress('2026-06-10');
+    // 21:30 in New York on June 10th, already June 11th in UTC
+    await logWorkout('2026-06-11T01:30:00.000Z', ['Chest']);
+
+    await workoutService.syncProgressMuscles(userId, '2026-06-10', TIMEZONE);
+
+    expect((await Progress.findById(day._id))!.musclesTrained).toEqual(['Chest']);
+    expect((await Progress.findById(previousDay._id))!.musclesTrained).toEqual([]);
+  });
+
+  it('keeps manually entered muscles next to the workout ones', async () => {
+    const progress = await logProgress('2026-06-10', ['Abs']);
+    const workout = await logWorkout('2026-06-10T14:00:00.000Z', ['Chest']);
+
+    await workoutService.syncProgressMuscles(userId, '2026-06-10', TIMEZONE);
+    expect((await Progress.findById(progress._id))!.musclesTrained).toEqual(['Abs', 'Chest']);
+
+    // Editing the workout replaces its muscles without touching the manual ones
+    workout.exercises[0].muscleGroups = ['Quads'];
+    await workout.save();
+    await workoutService.syncProgressMuscles(userId, '2026-06-10', TIMEZONE);
+    expect((await Progress.findById(progress._id))!.musclesTrained).toEqual(['Abs', 'Quads']);
+
+    await workout.deleteOne();
+    await workoutService.syncProgressMuscles(userId, '2026-06-10', TIMEZONE);
+    const synced = await Progress.findById(progress._id);
+    expect(synced!.musclesTrained).toEqual(['Abs']);
+    expect(synced!.workoutMuscles).toBeUndefined();
+  });
+});
@@ -0,0 +1,53 @@
+import { Workout } from '@/models/Workout';
+import { Progress } from '@/models/Progress';
+import { getStoredDayRange } from '@/utils/timezone';
+
+export class WorkoutService {
+  private static instance: WorkoutService;
+
+  public static getInstance(): WorkoutService {
+    if (!WorkoutService.instance) {
+      WorkoutService.instance = new WorkoutService();
+    }
+    return WorkoutService.instance;
+  }
+
+  // Add every muscle trained in the workouts of a local calendar day (YYYY-MM-DD) to that day's progress entry.
+  // Muscles entered by hand are kept; those contributed by workouts follow the workouts and go once none remain.
+  public async syncProgressMuscles(userId: string, dateKey: string, timezone?: string): Promise<string[] | null> {
+    try {
+      // Workouts are instants in the user's timezone; the progress date is the calendar day itself
+      const { start, end } = getStoredDayRange(dateKey);
+      const [workouts, progress] = await Promise.all([
+        Workout.getWorkoutsForDay(userId, dateKey, timezone),
+        Progress.findOne({ userId, date: { $gte: start, $lt: end } }, { musclesTrained: 1, workoutMuscles: 1 }),
+      ]);
+
+      const workoutMuscles = new Set<string>();
+      workouts.forEach(workout => workout.getMusclesTrained().forEach(muscle => workoutMuscles.add(muscle)));
+
+      if (!progress) {
+        return workouts.length > 0 ? Array.from(workoutMuscles) : null;
+      }
+      if (workouts.length === 0 && !progress.workoutMuscles?.length) return null;
+
+      const previousWorkoutMuscles = new Set(progress.workoutMuscles ?? []);
+      const manualMuscles = progress.musclesTrained.filter(muscle => !previousWorkoutMuscles.has(muscle));
+      const musclesTrained = Array.from(new Set([...manualMuscles, ...workoutMuscles]));
+
+      await Progress.updateOne(
+        { _id: progress._id },
+        workouts.length > 0
+          ? { $set: { musclesTrained, workoutMuscles: Array.from(workoutMuscles) } }
+          : { $set: { musclesTrained }, $unset: { workoutMuscles: 1 } }
+      );
+
+      return musclesTrained;
+    } catch (error) {
+      console.error('❌ Error syncing progress muscles:', error);
+      return null;
+    }
+  }
+}
+
+export const workoutService = WorkoutService.getInstance();
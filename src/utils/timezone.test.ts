@@ -0,0 +1,23 @@
+import { getDateKeyRange, getLocalDateKey, getStoredDateKey, getStoredDayRange } from '@/utils/timezone';
+
+describe('timezone helpers', () => {
+  it('bounds a local calendar day in a negative-offset timezone', () => {
+    // New York is UTC-4 in June
+    expect(getDateKeyRange('2026-06-10', 'America/New_York')).toEqual({
+      start: new Date('2026-06-10T04:00:00.000Z'),
+      end: new Date('2026-06-11T04:00:00.000Z'),
+    });
+  });
+
+  it('keeps stored date-only values on their own calendar day', () => {
+    const storedDate = new Date('2026-06-10T00:00:00.000Z');
+
+    // The same instant is still the previous evening in New York
+    expect(getLocalDateKey(storedDate, 'America/New_York')).toBe('2026-06-09');
+    expect(getStoredDateKey(storedDate)).toBe('2026-06-10');
+    expect(getStoredDayRange('2026-06-10')).toEqual({
+      start: storedDate,
+      end: new Date('2026-06-11T00:00:00.000Z'),
+    });
+  });
+});
@@ -0,0 +1,85 @@
+export const DEFAULT_TIMEZONE = 'UTC';
+
+export const isValidTimezone = (timezone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Calendar day of an instant in the given IANA timezone, as YYYY-MM-DD
+export const getLocalDateKey = (date: Date, timezone: string = DEFAULT_TIMEZONE): string => {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(date);
+
+  const get = (type: string) => parts.find(part => part.type === type)!.value;
+  return `${get('year')}-${get('month')}-${get('day')}`;
+};
+
+// Move a YYYY-MM-DD key by a number of calendar days
+export const shiftDateKey = (dateKey: string, days: number): string => {
+  const date = new Date(`${dateKey}T00:00:00.000Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split('T')[0];
+};
+
+// Wall-clock hour and minute of an instant in the given timezone
+export const getLocalTime = (date: Date, timezone: string = DEFAULT_TIMEZONE): { hour: number; minute: number } => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).formatToParts(date);
+
+  const get = (type: string) => Number(parts.find(part => part.type === type)!.value);
+  return { hour: get('hour'), minute: get('minute') };
+};
+
+// Difference between local wall-clock time and UTC at the given instant, in milliseconds
+const getTimezoneOffset = (date: Date, timezone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+
+  const get = (type: string) => Number(parts.find(part => part.type === type)!.value);
+  const localAsUTC = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return localAsUTC - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+// UTC instants bounding a local calendar day given as YYYY-MM-DD
+export const getDateKeyRange = (dateKey: string, timezone: string = DEFAULT_TIMEZONE): { start: Date; end: Date } => {
+  const toStart = (key: string): Date => {
+    const midnightUTC = new Date(`${key}T00:00:00.000Z`);
+    const start = new Date(midnightUTC.getTime() - getTimezoneOffset(midnightUTC, timezone));
+    // Re-evaluate the offset at the computed instant in case a DST change falls in between
+    return new Date(midnightUTC.getTime() - getTimezoneOffset(start, timezone));
+  };
+
+  return { start: toStart(dateKey), end: toStart(shiftDateKey(dateKey, 1)) };
+};
+
+// UTC instants bounding the local calendar day that contains the given instant
+export const getLocalDayRange = (date: Date, timezone: string = DEFAULT_TIMEZONE): { start: Date; end: Date } =>
+  getDateKeyRange(getLocalDateKey(date, timezone), timezone);
+
+// Date-only values, such as progress dates, are stored at UTC midnight of their calendar day
+export const getStoredDateKey = (date: Date): string => date.toISOString().split('T')[0];
+
+export const getStoredDayRange = (dateKey: string): { start: Date; end: Date } => ({
+  start: new Date(`${dateKey}T00:00:00.000Z`),
+  end: new Date(`${shiftDateKey(dateKey, 1)}T00:00:00.000Z`),
+});
@@ -0,0 +1,54 @@
+import dotenv from 'dotenv';
+
+import { connectDB, disconnectDB } from '@/config/database';
+import { connectRedis, disconnectRedis } from '@/config/redis';
+import { initializeFirebase } from '@/config/firebase';
+import { initializeEmail } from '@/config/email';
+import { initializeStripe } from '@/config/stripe';
+import { initializeStorage } from '@/config/storage';
+import '@/models/Log'; // Ensure Log model is registered
+import '@/services/jobHandlers'; // Register job handlers
+import { jobQueue } from '@/services/jobQueue';
+
+// Load environment variables
+dotenv.config();
+
+// Background worker: processes queued jobs, separately from the API server
+const startWorker = async () => {
+  try {
+    // Connect to databases
+    await connectDB();
+    await connectRedis();
+
+    // Initialize services
+    initializeFirebase();
+    initializeEmail();
+    initializeStripe();
+    initializeStorage();
+
+    await jobQueue.startWorker();
+  } catch (error) {
+    console.error('Failed to start worker:', error);
+    process.exit(1);
+  }
+};
+
+// Handle unhandled promise rejections
+process.on('unhandledRejection', (err: Error) => {
+  console.error('Unhandled Promise Rejection:', err.message);
+  process.exit(1);
+});
+
+// Graceful shutdown: finish jobs in progress before exiting
+const shutdown = async (signal: string) => {
+  console.log(`${signal} received. Finishing jobs in progress...`);
+  await jobQueue.stopWorker();
+  await disconnectRedis();
+  await disconnectDB();
+  process.exit(0);
+};
+
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
+
+startWorker();